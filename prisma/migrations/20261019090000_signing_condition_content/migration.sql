@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SigningCondition" ADD COLUMN "contentPattern" TEXT;
+ALTER TABLE "SigningCondition" ADD COLUMN "maxContentLength" INTEGER;
+ALTER TABLE "SigningCondition" ADD COLUMN "tags" TEXT;
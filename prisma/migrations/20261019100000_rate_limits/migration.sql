@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "RateLimit" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "keyUserId" INTEGER NOT NULL,
+    "method" TEXT NOT NULL,
+    "kind" TEXT,
+    "maxCount" INTEGER NOT NULL,
+    "windowSeconds" INTEGER NOT NULL,
+    "action" TEXT NOT NULL DEFAULT 'deny',
+    "currentCount" INTEGER NOT NULL DEFAULT 0,
+    "windowStartedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RateLimit_keyUserId_fkey" FOREIGN KEY ("keyUserId") REFERENCES "KeyUser" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
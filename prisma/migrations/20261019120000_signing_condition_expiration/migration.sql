@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SigningCondition" ADD COLUMN "expiredAt" DATETIME;
+ALTER TABLE "SigningCondition" ADD COLUMN "expiresAt" DATETIME;
@@ -0,0 +1,29 @@
+-- RedefineTables
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SigningCondition" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "method" TEXT,
+    "kind" TEXT,
+    "content" TEXT,
+    "contentPattern" TEXT,
+    "tags" TEXT,
+    "maxContentLength" INTEGER,
+    "keyUserKeyName" TEXT,
+    "allowed" BOOLEAN,
+    "maxUsageCount" INTEGER,
+    "currentUsageCount" INTEGER,
+    "expiresAt" DATETIME,
+    "expiredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "keyUserId" INTEGER,
+    "policyRuleId" INTEGER,
+    "tokenId" INTEGER,
+    CONSTRAINT "SigningCondition_keyUserId_fkey" FOREIGN KEY ("keyUserId") REFERENCES "KeyUser" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "SigningCondition_policyRuleId_fkey" FOREIGN KEY ("policyRuleId") REFERENCES "PolicyRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "SigningCondition_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_SigningCondition" ("allowed", "content", "contentPattern", "currentUsageCount", "expiredAt", "expiresAt", "id", "keyUserId", "keyUserKeyName", "kind", "maxContentLength", "maxUsageCount", "method", "policyRuleId", "tags", "tokenId") SELECT "allowed", "content", "contentPattern", "currentUsageCount", "expiredAt", "expiresAt", "id", "keyUserId", "keyUserKeyName", "kind", "maxContentLength", "maxUsageCount", "method", "policyRuleId", "tags", "tokenId" FROM "SigningCondition";
+DROP TABLE "SigningCondition";
+ALTER TABLE "new_SigningCondition" RENAME TO "SigningCondition";
+PRAGMA foreign_key_check;
+PRAGMA foreign_keys=ON;
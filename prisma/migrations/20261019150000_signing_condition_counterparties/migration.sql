@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SigningCondition" ADD COLUMN "counterparties" TEXT;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "KeyDefaultPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "keyName" TEXT NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'prompt',
+    "rules" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KeyDefaultPolicy_keyName_key" ON "KeyDefaultPolicy"("keyName");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PolicyRuleUsage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tokenId" INTEGER NOT NULL,
+    "policyRuleId" INTEGER NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "PolicyRuleUsage_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "PolicyRuleUsage_policyRuleId_fkey" FOREIGN KEY ("policyRuleId") REFERENCES "PolicyRule" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PolicyRuleUsage_tokenId_policyRuleId_key" ON "PolicyRuleUsage"("tokenId", "policyRuleId");
+
+-- Policy rules are no longer copied into signing conditions when a token is redeemed:
+-- keep how much each redeemed token used of each rule, then drop the copies
+INSERT INTO "PolicyRuleUsage" ("tokenId", "policyRuleId", "count")
+SELECT "tokenId", "policyRuleId", SUM(COALESCE("currentUsageCount", 0))
+FROM "SigningCondition"
+WHERE "tokenId" IS NOT NULL AND "policyRuleId" IS NOT NULL
+GROUP BY "tokenId", "policyRuleId";
+
+DELETE FROM "SigningCondition" WHERE "tokenId" IS NOT NULL AND "policyRuleId" IS NOT NULL;
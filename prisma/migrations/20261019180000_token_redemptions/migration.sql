@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN "maxRedemptions" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "TokenRedemption" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tokenId" INTEGER NOT NULL,
+    "keyUserId" INTEGER NOT NULL,
+    "redeemedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TokenRedemption_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "TokenRedemption_keyUserId_fkey" FOREIGN KEY ("keyUserId") REFERENCES "KeyUser" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenRedemption_tokenId_keyUserId_key" ON "TokenRedemption"("tokenId", "keyUserId");
+
+-- Tokens redeemed so far were redeemed once, by the KeyUser they point to
+INSERT INTO "TokenRedemption" ("tokenId", "keyUserId", "redeemedAt")
+SELECT "id", "keyUserId", "redeemedAt" FROM "Token"
+WHERE "redeemedAt" IS NOT NULL AND "keyUserId" IS NOT NULL;
+
+-- RedefineTables
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_PolicyRuleUsage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tokenId" INTEGER NOT NULL,
+    "keyUserId" INTEGER NOT NULL,
+    "policyRuleId" INTEGER NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "PolicyRuleUsage_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "PolicyRuleUsage_keyUserId_fkey" FOREIGN KEY ("keyUserId") REFERENCES "KeyUser" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "PolicyRuleUsage_policyRuleId_fkey" FOREIGN KEY ("policyRuleId") REFERENCES "PolicyRule" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_PolicyRuleUsage" ("id", "tokenId", "keyUserId", "policyRuleId", "count")
+SELECT "PolicyRuleUsage"."id", "PolicyRuleUsage"."tokenId", "Token"."keyUserId", "PolicyRuleUsage"."policyRuleId", "PolicyRuleUsage"."count"
+FROM "PolicyRuleUsage" JOIN "Token" ON "Token"."id" = "PolicyRuleUsage"."tokenId"
+WHERE "Token"."keyUserId" IS NOT NULL;
+DROP TABLE "PolicyRuleUsage";
+ALTER TABLE "new_PolicyRuleUsage" RENAME TO "PolicyRuleUsage";
+CREATE UNIQUE INDEX "PolicyRuleUsage_tokenId_keyUserId_policyRuleId_key" ON "PolicyRuleUsage"("tokenId", "keyUserId", "policyRuleId");
+PRAGMA foreign_key_check;
+PRAGMA foreign_keys=ON;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "Revocation" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "keyUserId" INTEGER NOT NULL,
+    "revokedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedBy" TEXT,
+    "reason" TEXT,
+    "restoredAt" DATETIME,
+    "restoredBy" TEXT,
+    CONSTRAINT "Revocation_keyUserId_fkey" FOREIGN KEY ("keyUserId") REFERENCES "KeyUser" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- Keep the revocations made so far; who revoked them wasn't recorded
+INSERT INTO "Revocation" ("keyUserId", "revokedAt")
+SELECT "id", "revokedAt" FROM "KeyUser" WHERE "revokedAt" IS NOT NULL;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "expiresAt" DATETIME;
+ALTER TABLE "Request" ADD COLUMN "resolvedAt" DATETIME;
+ALTER TABLE "Request" ADD COLUMN "resolvedBy" TEXT;
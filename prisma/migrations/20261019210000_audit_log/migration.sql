@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Log" ADD COLUMN "keyName" TEXT;
+ALTER TABLE "Log" ADD COLUMN "remotePubkey" TEXT;
+ALTER TABLE "Log" ADD COLUMN "kind" INTEGER;
+ALTER TABLE "Log" ADD COLUMN "contentHash" TEXT;
+ALTER TABLE "Log" ADD COLUMN "decision" TEXT;
+ALTER TABLE "Log" ADD COLUMN "reason" TEXT;
+ALTER TABLE "Log" ADD COLUMN "adminPubkey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Log_timestamp_idx" ON "Log"("timestamp");
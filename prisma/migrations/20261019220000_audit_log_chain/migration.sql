@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Log" ADD COLUMN "prevHash" TEXT;
+ALTER TABLE "Log" ADD COLUMN "hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "AuditCheckpoint" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "logId" INTEGER NOT NULL,
+    "hash" TEXT NOT NULL,
+    "event" TEXT NOT NULL
+);
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "requiredApprovals" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Request" ADD COLUMN "requiredRole" TEXT;
+
+-- CreateTable
+CREATE TABLE "ApprovalVote" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "requestId" TEXT NOT NULL,
+    "adminPubkey" TEXT NOT NULL,
+    "approve" BOOLEAN NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ApprovalVote_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "Request" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalVote_requestId_adminPubkey_key" ON "ApprovalVote"("requestId", "adminPubkey");
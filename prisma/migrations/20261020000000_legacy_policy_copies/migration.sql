@@ -0,0 +1,44 @@
+-- Tokens redeemed before policy rules were linked to their copies left plain
+-- allow conditions on the KeyUser, matching a rule of the token's policy by
+-- method and kind: keep how much they were used, then drop the copies so the
+-- policy applies to these clients again
+INSERT INTO "PolicyRuleUsage" ("tokenId", "keyUserId", "policyRuleId", "count")
+SELECT "TokenRedemption"."tokenId", "TokenRedemption"."keyUserId", "PolicyRule"."id", SUM(COALESCE("SigningCondition"."currentUsageCount", 0))
+FROM "SigningCondition"
+JOIN "TokenRedemption" ON "TokenRedemption"."keyUserId" = "SigningCondition"."keyUserId"
+JOIN "Token" ON "Token"."id" = "TokenRedemption"."tokenId"
+JOIN "PolicyRule" ON "PolicyRule"."policyId" = "Token"."policyId"
+    AND "PolicyRule"."method" = "SigningCondition"."method"
+    AND "PolicyRule"."kind" IS "SigningCondition"."kind"
+WHERE "SigningCondition"."tokenId" IS NULL
+    AND "SigningCondition"."policyRuleId" IS NULL
+    AND "SigningCondition"."allowed" = 1
+    AND "SigningCondition"."content" IS NULL
+    AND "SigningCondition"."contentPattern" IS NULL
+    AND "SigningCondition"."tags" IS NULL
+    AND "SigningCondition"."maxContentLength" IS NULL
+    AND "SigningCondition"."counterparties" IS NULL
+    AND "SigningCondition"."maxUsageCount" IS NULL
+    AND "SigningCondition"."expiresAt" IS NULL
+GROUP BY "TokenRedemption"."tokenId", "TokenRedemption"."keyUserId", "PolicyRule"."id"
+ON CONFLICT ("tokenId", "keyUserId", "policyRuleId") DO NOTHING;
+
+DELETE FROM "SigningCondition"
+WHERE "tokenId" IS NULL
+    AND "policyRuleId" IS NULL
+    AND "allowed" = 1
+    AND "content" IS NULL
+    AND "contentPattern" IS NULL
+    AND "tags" IS NULL
+    AND "maxContentLength" IS NULL
+    AND "counterparties" IS NULL
+    AND "maxUsageCount" IS NULL
+    AND "expiresAt" IS NULL
+    AND EXISTS (
+        SELECT 1 FROM "TokenRedemption"
+        JOIN "Token" ON "Token"."id" = "TokenRedemption"."tokenId"
+        JOIN "PolicyRule" ON "PolicyRule"."policyId" = "Token"."policyId"
+        WHERE "TokenRedemption"."keyUserId" = "SigningCondition"."keyUserId"
+            AND "PolicyRule"."method" = "SigningCondition"."method"
+            AND "PolicyRule"."kind" IS "SigningCondition"."kind"
+    );
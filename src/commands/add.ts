@@ -29,7 +29,7 @@ export async function saveEncrypted(config: string, nsec: string, passphrase: st
 
     currentConfig.keys[name] = { iv, data };
 
-    saveCurrentConfig(config, currentConfig);
+    await saveCurrentConfig(config, currentConfig);
 }
 
 /**
@@ -25,9 +25,9 @@ export async function setup(config: string) {
     console.log(`You need at least one administrator to remotely control nsecBunker. This should probably be your own npub.\n`);
 
     // Prompt for admin npub
-    rl.question(`Enter an administrator npub: `, (npub: string) => {
+    rl.question(`Enter an administrator npub: `, async (npub: string) => {
         currentConfig.admin.npubs.push(npub);
-        saveCurrentConfig(config, currentConfig);
+        await saveCurrentConfig(config, currentConfig);
         rl.close();
 
         console.log(`Administrator npub added!`);
@@ -120,6 +120,7 @@ export async function start(opts: IOpts) {
     const configData = await getCurrentConfig(opts.config);
 
     if (opts.adminNpubs && opts.adminNpubs.length > 0) {
+        // Admins added at runtime are kept in admin.addedNpubs
         configData.admin.npubs = opts.adminNpubs;
         console.log(`✅ adminNpubs: ${opts.adminNpubs}`)
     } else {
@@ -0,0 +1,52 @@
+/**
+ * Audit Log Verification Command
+ *
+ * Checks, without starting the bunker, that the audit log hasn't been tampered with:
+ * - Every entry is intact and chained to the previous one
+ * - Every checkpoint is signed by the bunker's admin key
+ * - The log still matches the latest checkpoint kept outside the database,
+ *   in the checkpoint file or on the admin relays
+ *
+ * Exits with a non-zero code when the log doesn't verify.
+ */
+
+import NDK from '@nostr-dev-kit/ndk';
+import { getPublicKey } from 'nostr-tools';
+import { getCurrentConfig } from '../config/index.js';
+import { getAuditCheckpointStores, loadExternalCheckpoints, verifyAuditLog } from '../daemon/lib/audit-chain.js';
+
+/**
+ * Verifies the audit log and prints the result
+ * @param config - Path to config file
+ */
+export async function verifyAuditLogCommand(config: string) {
+    const currentConfig = await getCurrentConfig(config);
+    const pubkey = getPublicKey(currentConfig.admin.key);
+
+    const ndk = new NDK({ explicitRelayUrls: currentConfig.admin.adminRelays });
+    await ndk.connect(5000);
+
+    const stores = getAuditCheckpointStores(currentConfig.admin, config, ndk);
+    const result = await verifyAuditLog(pubkey, await loadExternalCheckpoints(pubkey, stores));
+
+    console.log(`Entries: ${result.entries} (${result.unchained_entries} written before the log was chained)`);
+    console.log(`Checkpoints: ${result.checkpoints}`);
+    console.log(`Checkpoints outside the database: ${result.external_checkpoints}`);
+
+    for (const error of result.errors) {
+        const location = [
+            error.log_id !== undefined ? `entry ${error.log_id}` : undefined,
+            error.checkpoint_id !== undefined ? `checkpoint ${error.checkpoint_id}` : undefined,
+        ].filter(Boolean).join(', ');
+
+        console.log(`❌ ${location}: ${error.error}`);
+    }
+
+    if (result.valid) {
+        console.log(`✅ Audit log verified`);
+        process.exit(0);
+    } else {
+        console.log(`❌ Audit log failed verification`);
+        process.exit(1);
+    }
+}
@@ -6,7 +6,8 @@
  * including admin access, relay connections, and key storage.
  */
 
-import { readFileSync, writeFileSync } from 'fs';
+import { readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
 import { NDKPrivateKeySigner, NDKUserProfile } from '@nostr-dev-kit/ndk';
 import { IAdminOpts } from '../daemon/admin';
 import { version } from '../../package.json';
@@ -41,6 +42,16 @@ export interface DomainConfig {
     defaultProfile?: Record<string, string>;
 };
 
+/**
+ * A deleted key, archived in case it needs to be recovered
+ */
+export interface IArchivedKey {
+    keyName: string;
+    // The key as it was stored in keys.$keyId
+    key: Record<string, any>;
+    deletedAt: string;
+}
+
 /**
  * Main configuration interface for nsecBunker
  * All properties are optional unless otherwise noted in the documentation
@@ -63,7 +74,11 @@ export interface IConfig {
     // Storage for encrypted and unencrypted keys
     // Format: keys.$keyId.iv + keys.$keyId.data (encrypted)
     //         keys.$keyId.key (unencrypted)
+    //         keys.$keyId.autoLockMinutes (optional idle timeout)
+    //         keys.$keyId.pendingRequestTtl + keys.$keyId.pendingRequestTtlByMethod (optional approval timeouts)
     keys: Record<string, any>;
+    // Keys removed with delete_key, kept as they were stored
+    archivedKeys?: IArchivedKey[];
     // URL for OAuth-like authentication access
     baseUrl?: string;
     // Enable detailed logging when true
@@ -127,15 +142,16 @@ async function getCurrentConfig(config: string): Promise<IConfig> {
 /**
  * Saves the current configuration to disk
  * Automatically includes the current bunker version
+ * @throws Error if the file can't be written
  */
-export function saveCurrentConfig(config: string, currentConfig: any) {
+export async function saveCurrentConfig(config: string, currentConfig: any) {
     try {
         currentConfig.version = version;
         const configString = JSON.stringify(currentConfig, null, 2);
-        writeFileSync(config, configString);
+        await writeFile(config, configString);
     } catch (err: any) {
         console.error(`Error writing config file: ${err.message}`);
-        process.exit(1);
+        throw new Error(`Error writing config file: ${err.message}`);
     }
 }
 export {getCurrentConfig};
@@ -0,0 +1,65 @@
+/**
+ * Admin Addition Command Handler
+ *
+ * Manages who can administrate the bunker at runtime.
+ * Features:
+ * - Adds an admin, or changes the role of an existing one
+ * - Optionally limits the admin to some keys
+ * - Persists the change in the config, no restart needed
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { saveCurrentConfig } from "../../../config/index.js";
+import { IAdminRole, IAdminRoleConfig, getAdminNpubs, getOwnerNpubs, normalizeAdminNpub, validateAdminRole } from "../validations/admin-permissions.js";
+
+/**
+ * Adds an admin or changes its role
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the npub, the role (owner by default)
+ *              and optionally a JSON array with the names of the keys the admin can manage
+ * @returns Response indicating success
+ */
+export default async function addAdmin(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ _npub, role, _keys ] = req.params as [ string, string?, string? ];
+
+    if (!_npub) throw new Error("Invalid params");
+
+    const npub = normalizeAdminNpub(_npub);
+    const roleConfig: IAdminRoleConfig = { role: (role || 'owner') as IAdminRole };
+
+    if (_keys) {
+        try {
+            roleConfig.keys = JSON.parse(_keys);
+        } catch (e) {
+            throw new Error("Invalid keys");
+        }
+    }
+
+    validateAdminRole(roleConfig);
+
+    const config = await admin.config();
+    const isOwner = roleConfig.role === 'owner' && !roleConfig.keys;
+    const owners = getOwnerNpubs(config);
+
+    if (!isOwner && owners.length === 1 && owners[0] === npub) {
+        throw new Error("Can't change the role of the last owner");
+    }
+
+    if (!getAdminNpubs(config.admin).includes(npub)) {
+        config.admin.addedNpubs = [ ...(config.admin.addedNpubs ?? []), npub ];
+    }
+
+    config.admin.roles ??= {};
+    if (isOwner) {
+        delete config.admin.roles[npub];
+    } else {
+        config.admin.roles[npub] = roleConfig;
+    }
+
+    await saveCurrentConfig(admin.configFile, config);
+    admin.npubs = getAdminNpubs(config.admin);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
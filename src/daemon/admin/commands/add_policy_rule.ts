@@ -0,0 +1,54 @@
+/**
+ * Policy Rule Command Handler
+ *
+ * Manages the rules of existing access policies.
+ * Features:
+ * - Adding rules with the same validation as new policies
+ * - Changes apply to every client holding a token of the policy
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateAclCache } from "../../lib/acl/cache.js";
+import { validatePolicyRule } from "../../lib/acl/policies.js";
+
+/**
+ * Adds a rule to a policy
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the policy id and the rule as JSON,
+ *              e.g. {"method":"sign_event","kind":1,"use_count":100}
+ * @returns Response with the id of the new rule
+ */
+export default async function addPolicyRule(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ policyId, _rule ] = req.params as [ string, string ];
+
+    if (!policyId || !_rule) throw new Error("Invalid params");
+
+    const policyIdInt = parseInt(policyId);
+    if (isNaN(policyIdInt)) throw new Error("Invalid params");
+
+    let rule;
+
+    try {
+        rule = JSON.parse(_rule);
+    } catch (e) {
+        throw new Error("Invalid rule");
+    }
+
+    const policy = await prisma.policy.findUnique({ where: { id: policyIdInt } });
+    if (!policy || policy.deletedAt) throw new Error("Policy not found");
+
+    const ruleRecord = await prisma.policyRule.create({
+        data: {
+            policyId: policyIdInt,
+            ...await validatePolicyRule(rule),
+            currentUsageCount: 0,
+        }
+    });
+
+    invalidateAclCache();
+
+    const result = JSON.stringify(["ok", ruleRecord.id]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
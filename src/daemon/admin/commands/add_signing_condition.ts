@@ -0,0 +1,54 @@
+/**
+ * Signing Condition Command Handler
+ *
+ * Manages the individual permissions of key users.
+ * Features:
+ * - Allow or deny conditions per method and kind
+ * - Content, tag and counterparty restrictions
+ * - Usage budgets and expiration
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { signingConditionInputToQuery } from "../../lib/acl/index.js";
+import { invalidateKeyUserRuleSet } from "../../lib/acl/cache.js";
+
+/**
+ * Adds a signing condition to a key user
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the key user id and the condition as JSON,
+ *              e.g. {"method":"sign_event","kind":4,"allowed":false}
+ * @returns Response with the id of the new condition
+ */
+export default async function addSigningCondition(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyUserId, _condition ] = req.params as [ string, string ];
+
+    if (!keyUserId || !_condition) throw new Error("Invalid params");
+
+    const keyUserIdInt = parseInt(keyUserId);
+    if (isNaN(keyUserIdInt)) throw new Error("Invalid params");
+
+    let condition;
+
+    try {
+        condition = JSON.parse(_condition);
+    } catch (e) {
+        throw new Error("Invalid signing condition");
+    }
+
+    const keyUser = await prisma.keyUser.findUnique({ where: { id: keyUserIdInt } });
+    if (!keyUser) throw new Error("Key user not found");
+
+    const signingCondition = await prisma.signingCondition.create({
+        data: {
+            keyUserId: keyUserIdInt,
+            ...await signingConditionInputToQuery(condition),
+        }
+    });
+
+    invalidateKeyUserRuleSet(keyUserIdInt);
+
+    const result = JSON.stringify(["ok", signingCondition.id]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
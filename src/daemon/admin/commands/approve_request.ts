@@ -0,0 +1,32 @@
+/**
+ * Request Approval Command Handler
+ *
+ * Manages the approval of requests waiting for an admin.
+ * Features:
+ * - Records the admin's approval; requests that need several admins
+ *   stay pending until enough of them approve
+ * - Lets the client that sent the request through once it's approved
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { castVote } from "../../lib/pending-requests.js";
+import { getAdminRole } from "../validations/admin-permissions.js";
+
+/**
+ * Approves a pending request
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the request ID
+ * @returns Response with the status of the request and its approvals so far
+ */
+export default async function approveRequest(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ requestId ] = req.params as [ string ];
+
+    if (!requestId) throw new Error("Invalid params");
+
+    const roleConfig = getAdminRole(await admin.config(), req.pubkey);
+    const vote = await castVote(requestId, true, req.pubkey, roleConfig);
+
+    const result = JSON.stringify(["ok", vote]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,44 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { saveCurrentConfig } from "../../../config/index.js";
+import { decryptNsec, encryptNsec } from "../../../config/keys.js";
+
+/**
+ * Re-encrypts a key under a new passphrase.
+ * The key keeps running if it's unlocked; the new passphrase is needed
+ * the next time it gets unlocked.
+ *
+ * @param {AdminInterface} admin - The admin interface instance handling the request
+ * @param {NDKRpcRequest} req - The RPC request containing the key name, the current and the new passphrase
+ * @returns {Promise<void>} A promise that resolves when the response is sent
+ * @throws {Error} If params are invalid, the key isn't encrypted or the current passphrase is wrong
+ */
+export default async function changeKeyPassphrase(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName, oldPassphrase, newPassphrase ] = req.params as [ string, string, string ];
+
+    if (!keyName || !oldPassphrase || !newPassphrase) throw new Error("Invalid params");
+
+    const config = await admin.config();
+    const keyData = config.keys[keyName];
+
+    if (!keyData) throw new Error("Key not found");
+    if (!keyData.iv || !keyData.data) throw new Error("Key is not encrypted");
+
+    let nsec: string;
+
+    try {
+        nsec = decryptNsec(keyData.iv, keyData.data, oldPassphrase);
+    } catch (e) {
+        throw new Error("Invalid passphrase");
+    }
+
+    if (!nsec.startsWith('nsec1')) throw new Error("Invalid passphrase");
+
+    const { iv, data } = encryptNsec(nsec, newPassphrase);
+    config.keys[keyName] = { ...keyData, iv, data };
+
+    await saveCurrentConfig(admin.configFile, config);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -238,7 +238,7 @@ export async function createAccountReal(
         const nsec = nip19.nsecEncode(key.privateKey!);
         currentConfig.keys[keyName] = { key: key.privateKey };
 
-        saveCurrentConfig(admin.configFile, currentConfig);
+        await saveCurrentConfig(admin.configFile, currentConfig);
 
         await admin.loadNsec!(keyName, nsec);
 
@@ -11,6 +11,7 @@
 import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
 import AdminInterface from "../index.js";
 import prisma from "../../../db.js";
+import { IPolicyRuleInput, validatePolicyRule } from "../../lib/acl/policies.js";
 
 /**
  * Creates a new access policy with associated rules
@@ -25,6 +26,9 @@ export default async function createNewPolicy(admin: AdminInterface, req: NDKRpc
 
     const policy = JSON.parse(_policy);
 
+    if (!Array.isArray(policy.rules)) throw new Error("Invalid rules");
+    const rules = await Promise.all(policy.rules.map((rule: IPolicyRuleInput) => validatePolicyRule(rule)));
+
     // Create the base policy record
     const policyRecord = await prisma.policy.create({
         data: {
@@ -34,13 +38,11 @@ export default async function createNewPolicy(admin: AdminInterface, req: NDKRpc
     });
 
     // Create associated rules
-    for (const rule of policy.rules) {
+    for (const rule of rules) {
         await prisma.policyRule.create({
             data: {
                 policyId: policyRecord.id,
-                kind: rule.kind.toString(),
-                method: rule.method,
-                maxUsageCount: rule.use_count,
+                ...rule,
                 currentUsageCount: 0,
             }
         });
@@ -7,11 +7,13 @@
  * - Policy association
  * - Expiration management
  * - Client tracking
+ * - Single or multi-use tokens
  */
 
 import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
 import AdminInterface from "../index.js";
 import prisma from "../../../db.js";
+import crypto from "crypto";
 
 /**
  * Creates a new access token with associated policy
@@ -20,7 +22,7 @@ import prisma from "../../../db.js";
  * @returns Response indicating success
  */
 export default async function createNewToken(admin: AdminInterface, req: NDKRpcRequest) {
-    const [ keyName, clientName, policyId, durationInHours ] = req.params as [ string, string, string, string? ];
+    const [ keyName, clientName, policyId, durationInHours, maxRedemptions ] = req.params as [ string, string, string, string?, string? ];
 
     if (!clientName || !policyId) throw new Error("Invalid params");
 
@@ -30,13 +32,13 @@ export default async function createNewToken(admin: AdminInterface, req: NDKRpcR
         include: { rules: true } 
     });
 
-    if (!policy) throw new Error("Policy not found");
+    if (!policy || policy.deletedAt) throw new Error("Policy not found");
 
     console.log({clientName, policy, durationInHours});
 
     // Generate random token
-    const token = [...Array(64)].map(() => Math.floor(Math.random() * 16).toString(16)).join('');
-    
+    const token = crypto.randomBytes(32).toString('hex');
+
     // Prepare token data
     const data: any = {
         keyName, 
@@ -46,6 +48,12 @@ export default async function createNewToken(admin: AdminInterface, req: NDKRpcR
         token
     };
 
+    // Allow the token to be redeemed by several clients
+    if (maxRedemptions) {
+        data.maxRedemptions = parseInt(maxRedemptions);
+        if (isNaN(data.maxRedemptions) || data.maxRedemptions < 1) throw new Error("Invalid max redemptions");
+    }
+
     // Add expiration if duration specified
     if (durationInHours) {
         data.expiresAt = new Date(Date.now() + (parseInt(durationInHours) * 60 * 60 * 1000));
@@ -0,0 +1,68 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { saveCurrentConfig } from "../../../config/index.js";
+import { invalidateAclCache } from "../../lib/acl/cache.js";
+
+/**
+ * Deletes a key:
+ * - Moves its stored (encrypted) blob from keys to archivedKeys in the config
+ * - Stops serving requests for it
+ * - Revokes its key users and tokens
+ * - Soft-deletes its Key record
+ *
+ * @param {AdminInterface} admin - The admin interface instance handling the request
+ * @param {NDKRpcRequest} req - The RPC request containing the key name
+ * @returns {Promise<void>} A promise that resolves when the response is sent
+ * @throws {Error} If params are invalid or the key doesn't exist
+ */
+export default async function deleteKey(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName ] = req.params as [ string ];
+
+    if (!keyName) throw new Error("Invalid params");
+    if (!admin.unloadKey) throw new Error("No unloadKey method");
+
+    const config = await admin.config();
+    const keyData = config.keys[keyName];
+
+    if (!keyData) throw new Error("Key not found");
+
+    const deletedAt = new Date();
+
+    config.archivedKeys ??= [];
+    config.archivedKeys.push({ keyName, key: keyData, deletedAt: deletedAt.toISOString() });
+    delete config.keys[keyName];
+    await saveCurrentConfig(admin.configFile, config);
+
+    admin.unloadKey(keyName);
+
+    const keyUsers = await prisma.keyUser.findMany({ where: { keyName, revokedAt: null } });
+
+    await prisma.$transaction([
+        prisma.keyUser.updateMany({
+            where: { keyName, revokedAt: null },
+            data: { revokedAt: deletedAt },
+        }),
+        ...keyUsers.map((keyUser) => prisma.revocation.create({
+            data: {
+                keyUserId: keyUser.id,
+                revokedAt: deletedAt,
+                revokedBy: req.pubkey,
+                reason: 'key deleted',
+            }
+        })),
+        prisma.token.updateMany({
+            where: { keyName, deletedAt: null },
+            data: { deletedAt },
+        }),
+        prisma.key.updateMany({
+            where: { keyName, deletedAt: null },
+            data: { deletedAt },
+        }),
+    ]);
+
+    invalidateAclCache();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,33 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateKindGroups } from "../../lib/acl/cache.js";
+import { findKindGroupReferences } from "../../lib/acl/kinds.js";
+
+/**
+ * Deletes a kind group. Groups that rules still refer to can't be deleted,
+ * those rules would silently stop matching.
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the group name
+ * @returns Response indicating success
+ * @throws Error if a rule refers to the group
+ */
+export default async function deleteKindGroup(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ name ] = req.params as [ string ];
+
+    if (!name) throw new Error("Invalid params");
+
+    const references = await findKindGroupReferences(name);
+    if (references.length > 0) {
+        throw new Error(`Kind group ${name} is used by ${references.join(', ')}`);
+    }
+
+    await prisma.kindGroup.delete({
+        where: { name }
+    });
+
+    invalidateKindGroups();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,42 @@
+/**
+ * Policy Deletion Command Handler
+ *
+ * Manages the removal of access policies.
+ * Features:
+ * - Soft deletion, so redeemed tokens keep their history
+ * - Tokens issued against the policy can no longer be redeemed
+ * - Clients holding a token of the policy lose its rules
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateAclCache } from "../../lib/acl/cache.js";
+
+/**
+ * Soft-deletes a policy
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the policy id
+ * @returns Response indicating success
+ */
+export default async function deletePolicy(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ policyId ] = req.params as [ string ];
+
+    if (!policyId) throw new Error("Invalid params");
+
+    const policyIdInt = parseInt(policyId);
+    if (isNaN(policyIdInt)) throw new Error("Invalid params");
+
+    const policy = await prisma.policy.findUnique({ where: { id: policyIdInt } });
+    if (!policy || policy.deletedAt) throw new Error("Policy not found");
+
+    await prisma.policy.update({
+        where: { id: policyIdInt },
+        data: { deletedAt: new Date() },
+    });
+
+    invalidateAclCache();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,32 @@
+/**
+ * Request Denial Command Handler
+ *
+ * Manages the denial of requests waiting for an admin.
+ * Features:
+ * - Rejects the request of the client, if it's still waiting; a single
+ *   denial vetoes requests that need several admins
+ * - Records which admin denied the request
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { castVote } from "../../lib/pending-requests.js";
+import { getAdminRole } from "../validations/admin-permissions.js";
+
+/**
+ * Denies a pending request
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the request ID
+ * @returns Response with the status of the request
+ */
+export default async function denyRequest(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ requestId ] = req.params as [ string ];
+
+    if (!requestId) throw new Error("Invalid params");
+
+    const roleConfig = getAdminRole(await admin.config(), req.pubkey);
+    const vote = await castVote(requestId, false, req.pubkey, roleConfig);
+
+    const result = JSON.stringify(["ok", vote]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
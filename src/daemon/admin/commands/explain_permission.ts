@@ -0,0 +1,68 @@
+/**
+ * Permission Explanation Command Handler
+ *
+ * Explains how the ACL decides a request without executing it.
+ * Features:
+ * - Lists every rule that matches the request, in order of precedence
+ * - Reports the rule that decides the request and the final decision
+ */
+
+import { NDKRpcRequest, NostrEvent } from "@nostr-dev-kit/ndk";
+import { nip19 } from "nostr-tools";
+import AdminInterface from "../index.js";
+import { IMethod, getSigningDecision, isEncryptionMethod, normalizeMethod } from "../../lib/acl/index.js";
+
+/**
+ * Evaluates a hypothetical request against the ACL
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the key name, client pubkey, method and optional
+ *              event (sign_event) or counterparty pubkey (encrypt/decrypt)
+ * @returns Response with the matching rules and the decision
+ */
+export default async function explainPermission(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName, pubkey, method, target ] = req.params as [ string, string, string, string? ];
+
+    if (!keyName || !pubkey || !method) throw new Error("Invalid params");
+
+    const remotePubkey = pubkey.startsWith('npub') ? nip19.decode(pubkey).data as string : pubkey;
+
+    let payload: NostrEvent | string[] | undefined;
+
+    if (target && isEncryptionMethod(normalizeMethod(method))) {
+        const counterparty = target.startsWith('npub') ? nip19.decode(target).data as string : target;
+        payload = [ counterparty, '' ];
+    } else if (target) {
+        try {
+            payload = JSON.parse(target);
+        } catch (e) {
+            throw new Error("Invalid event");
+        }
+    }
+
+    const decision = await getSigningDecision(keyName, remotePubkey, method as IMethod, payload);
+
+    const result = JSON.stringify({
+        decision: decision.allowed === undefined ? 'ask_admin' : (decision.allowed ? 'allowed' : 'denied'),
+        reason: decision.reason,
+        key_user_id: decision.keyUser?.id,
+        winning_rule_id: decision.signingCondition?.id,
+        rules: decision.matchingConditions.map((c) => ({
+            id: c.id,
+            method: c.method,
+            kind: c.kind,
+            allowed: c.allowed,
+            content_pattern: c.contentPattern,
+            tags: c.tags,
+            max_content_length: c.maxContentLength,
+            counterparties: c.counterparties,
+            max_usage_count: c.maxUsageCount,
+            current_usage_count: c.currentUsageCount,
+            expires_at: c.expiresAt,
+            created_at: c.createdAt,
+            policy_rule_id: c.policyRuleId,
+            token_id: c.tokenId,
+        })),
+    });
+
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
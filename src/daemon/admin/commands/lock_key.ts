@@ -0,0 +1,29 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+
+/**
+ * Handles key locking requests for the admin interface.
+ * Locking stops serving requests for the key and drops its decrypted secret.
+ *
+ * @param {AdminInterface} admin - The admin interface instance handling the request
+ * @param {NDKRpcRequest} req - The RPC request containing the key name
+ * @returns {Promise<void>} A promise that resolves when the response is sent
+ * @throws {Error} If params are invalid or lockKey method is not available
+ */
+export default async function lockKey(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName ] = req.params as [ string ];
+
+    if (!keyName) throw new Error("Invalid params");
+    if (!admin.lockKey) throw new Error("No lockKey method");
+
+    let result;
+
+    try {
+        const res = await admin.lockKey(keyName);
+        result = JSON.stringify({ success: res });
+    } catch (e: any) {
+        result = JSON.stringify({ success: false, error: e.message });
+    }
+
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
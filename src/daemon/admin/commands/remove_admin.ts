@@ -0,0 +1,45 @@
+/**
+ * Admin Removal Command Handler
+ *
+ * Manages who can administrate the bunker at runtime.
+ * Features:
+ * - Removes an admin and its role
+ * - Refuses to remove the last owner, which would leave the bunker unmanageable
+ * - Persists the change in the config, no restart needed; admins passed
+ *   with --admin or ADMIN_NPUBS come back on the next start unless removed there too
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { saveCurrentConfig } from "../../../config/index.js";
+import { getAdminNpubs, getOwnerNpubs, normalizeAdminNpub } from "../validations/admin-permissions.js";
+
+/**
+ * Removes an admin
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the npub
+ * @returns Response indicating success
+ */
+export default async function removeAdmin(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ _npub ] = req.params as [ string ];
+
+    if (!_npub) throw new Error("Invalid params");
+
+    const npub = normalizeAdminNpub(_npub);
+    const config = await admin.config();
+
+    if (!getAdminNpubs(config.admin).includes(npub)) throw new Error("Admin not found");
+
+    const owners = getOwnerNpubs(config);
+    if (owners.length === 1 && owners[0] === npub) throw new Error("Can't remove the last owner");
+
+    config.admin.npubs = config.admin.npubs.filter((n) => n !== npub);
+    config.admin.addedNpubs = config.admin.addedNpubs?.filter((n) => n !== npub);
+    if (config.admin.roles) delete config.admin.roles[npub];
+
+    await saveCurrentConfig(admin.configFile, config);
+    admin.npubs = getAdminNpubs(config.admin);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,50 @@
+/**
+ * Policy Rule Removal Command Handler
+ *
+ * Manages the rules of existing access policies.
+ * Features:
+ * - Removing rules along with the usage tracked for them
+ * - Changes apply to every client holding a token of the policy
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateAclCache } from "../../lib/acl/cache.js";
+
+/**
+ * Removes a rule from a policy
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the policy id and the rule id
+ * @returns Response indicating success
+ */
+export default async function removePolicyRule(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ policyId, ruleId ] = req.params as [ string, string ];
+
+    if (!policyId || !ruleId) throw new Error("Invalid params");
+
+    const policyIdInt = parseInt(policyId);
+    const ruleIdInt = parseInt(ruleId);
+    if (isNaN(policyIdInt) || isNaN(ruleIdInt)) throw new Error("Invalid params");
+
+    const rule = await prisma.policyRule.findUnique({
+        where: { id: ruleIdInt },
+        include: { Policy: true },
+    });
+
+    if (!rule || rule.policyId !== policyIdInt || rule.Policy?.deletedAt) throw new Error("Rule not found");
+
+    await prisma.$transaction([
+        prisma.policyRuleUsage.deleteMany({ where: { policyRuleId: ruleIdInt } }),
+        prisma.signingCondition.updateMany({
+            where: { policyRuleId: ruleIdInt },
+            data: { policyRuleId: null },
+        }),
+        prisma.policyRule.delete({ where: { id: ruleIdInt } }),
+    ]);
+
+    invalidateAclCache();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,27 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+
+/**
+ * Removes a rate limit from a key user
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the rate limit ID
+ * @returns Response indicating success
+ */
+export default async function removeRateLimit(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ rateLimitId ] = req.params as [ string ];
+
+    if (!rateLimitId) throw new Error("Invalid params");
+
+    const rateLimitIdInt = parseInt(rateLimitId);
+    if (isNaN(rateLimitIdInt)) throw new Error("Invalid params");
+
+    await prisma.rateLimit.delete({
+        where: {
+            id: rateLimitIdInt,
+        }
+    });
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,39 @@
+/**
+ * Signing Condition Removal Command Handler
+ *
+ * Manages the individual permissions of key users, e.g. revoking
+ * only kind 4 from a client without revoking the client.
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateKeyUserRuleSet } from "../../lib/acl/cache.js";
+
+/**
+ * Removes a signing condition from a key user
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the key user id and the condition id
+ * @returns Response indicating success
+ */
+export default async function removeSigningCondition(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyUserId, conditionId ] = req.params as [ string, string ];
+
+    if (!keyUserId || !conditionId) throw new Error("Invalid params");
+
+    const keyUserIdInt = parseInt(keyUserId);
+    const conditionIdInt = parseInt(conditionId);
+    if (isNaN(keyUserIdInt) || isNaN(conditionIdInt)) throw new Error("Invalid params");
+
+    const signingCondition = await prisma.signingCondition.findUnique({ where: { id: conditionIdInt } });
+    if (!signingCondition || signingCondition.keyUserId !== keyUserIdInt) throw new Error("Signing condition not found");
+
+    await prisma.signingCondition.delete({
+        where: { id: conditionIdInt }
+    });
+
+    invalidateKeyUserRuleSet(keyUserIdInt);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -10,6 +10,7 @@
 import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
 import AdminInterface from "../index.js";
 import prisma from "../../../db.js";
+import { invalidateKeyUserRuleSet } from "../../lib/acl/cache.js";
 
 /**
  * Updates the description for a key user
@@ -35,6 +36,8 @@ export default async function renameKeyUser(admin: AdminInterface, req: NDKRpcRe
         }
     });
 
+    invalidateKeyUserRuleSet(keyUserIdInt);
+
     const result = JSON.stringify(["ok"]);
     return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
 }
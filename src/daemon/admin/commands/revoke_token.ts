@@ -0,0 +1,51 @@
+/**
+ * Token Revocation Command Handler
+ *
+ * Manages the revocation of access tokens, e.g. leaked onboarding tokens.
+ * Features:
+ * - Revoked tokens can no longer be redeemed
+ * - Clients that redeemed the token lose the permissions it granted
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateAclCache } from "../../lib/acl/cache.js";
+
+/**
+ * Revokes a token by soft-deleting it
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the token id
+ * @returns Response indicating success
+ */
+export default async function revokeToken(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ tokenId ] = req.params as [ string ];
+
+    if (!tokenId) throw new Error("Invalid params");
+
+    const tokenIdInt = parseInt(tokenId);
+    if (isNaN(tokenIdInt)) throw new Error("Invalid params");
+
+    const token = await prisma.token.findUnique({ where: { id: tokenIdInt } });
+    if (!token) throw new Error("Token not found");
+    if (token.deletedAt) throw new Error("Token already revoked");
+
+    const now = new Date();
+
+    await prisma.token.update({
+        where: { id: tokenIdInt },
+        data: { deletedAt: now },
+    });
+
+    // The policy's rules stop applying with the token; the connect
+    // permissions it granted are expired explicitly
+    await prisma.signingCondition.updateMany({
+        where: { tokenId: tokenIdInt, expiredAt: null },
+        data: { expiredAt: now },
+    });
+
+    invalidateAclCache();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
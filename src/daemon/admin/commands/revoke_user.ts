@@ -5,36 +5,52 @@
  * Features:
  * - User access revocation
  * - Timestamp tracking
+ * - Revocation history: who revoked, when and why
  * - Permission removal
  */
 
 import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
 import AdminInterface from "../index.js";
 import prisma from "../../../db.js";
+import { invalidateKeyUserRuleSet } from "../../lib/acl/cache.js";
 
 /**
  * Revokes access for a specific user
  * @param admin - Admin interface instance
- * @param req - The RPC request containing user ID
+ * @param req - The RPC request containing user ID and an optional reason
  * @returns Response indicating success
  */
 export default async function revokeUser(admin: AdminInterface, req: NDKRpcRequest) {
-    const [ keyUserId ] = req.params as [ string ];
+    const [ keyUserId, reason ] = req.params as [ string, string? ];
 
     if (!keyUserId) throw new Error("Invalid params");
 
     const keyUserIdInt = parseInt(keyUserId);
     if (isNaN(keyUserIdInt)) throw new Error("Invalid params");
 
-    // Update user record with revocation timestamp
-    await prisma.keyUser.update({
-        where: {
-            id: keyUserIdInt,
-        },
-        data: {
-            revokedAt: new Date(),
-        }
-    });
+    const keyUser = await prisma.keyUser.findUnique({ where: { id: keyUserIdInt } });
+    if (!keyUser) throw new Error("Key user not found");
+    if (keyUser.revokedAt) throw new Error("Key user already revoked");
+
+    const revokedAt = new Date();
+
+    // Update user record with revocation timestamp and keep it in the history
+    await prisma.$transaction([
+        prisma.keyUser.update({
+            where: { id: keyUserIdInt },
+            data: { revokedAt },
+        }),
+        prisma.revocation.create({
+            data: {
+                keyUserId: keyUserIdInt,
+                revokedAt,
+                revokedBy: req.pubkey,
+                reason,
+            }
+        }),
+    ]);
+
+    invalidateKeyUserRuleSet(keyUserIdInt);
 
     const result = JSON.stringify(["ok"]);
     return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
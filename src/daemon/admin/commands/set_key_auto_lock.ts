@@ -0,0 +1,41 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { saveCurrentConfig } from "../../../config/index.js";
+
+/**
+ * Sets how long a key can go without requests before it gets locked.
+ * The timeout is stored in the config as keys.$keyId.autoLockMinutes.
+ *
+ * @param {AdminInterface} admin - The admin interface instance handling the request
+ * @param {NDKRpcRequest} req - The RPC request containing the key name and the
+ *                              timeout in minutes; 0 disables auto-locking
+ * @returns {Promise<void>} A promise that resolves when the response is sent
+ * @throws {Error} If params are invalid, the key doesn't exist or isn't encrypted
+ */
+export default async function setKeyAutoLock(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName, _minutes ] = req.params as [ string, string ];
+
+    if (!keyName || _minutes === undefined) throw new Error("Invalid params");
+
+    const minutes = parseInt(_minutes);
+    if (isNaN(minutes) || minutes < 0) throw new Error("Invalid params");
+
+    const config = await admin.config();
+    const keyData = config.keys[keyName];
+
+    if (!keyData) throw new Error("Key not found");
+    if (minutes > 0 && (!keyData.iv || !keyData.data)) {
+        throw new Error("Key is not encrypted, it can't be unlocked again once locked");
+    }
+
+    if (minutes > 0) {
+        keyData.autoLockMinutes = minutes;
+    } else {
+        delete keyData.autoLockMinutes;
+    }
+
+    await saveCurrentConfig(admin.configFile, config);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
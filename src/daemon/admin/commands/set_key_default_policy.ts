@@ -0,0 +1,55 @@
+/**
+ * Key Default Policy Command Handler
+ *
+ * Manages how a key treats clients it doesn't know yet.
+ * Features:
+ * - Prompt, deny or require-token modes
+ * - Default rules allowed for anyone, e.g. connect and kind 7
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import {
+    DEFAULT_POLICY_MODES,
+    IDefaultPolicyMode,
+    validateDefaultPolicyRules,
+} from "../../lib/acl/default-policy.js";
+
+/**
+ * Creates or replaces the default policy of a key
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the key name, the mode and
+ *              an optional JSON array of rules, e.g. [{"method":"sign_event","kind":7}]
+ * @returns Response indicating success
+ */
+export default async function setKeyDefaultPolicy(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName, _mode, _rules ] = req.params as [ string, string, string? ];
+
+    if (!keyName || !_mode) throw new Error("Invalid params");
+
+    const config = await admin.config();
+    if (!config.keys[keyName]) throw new Error("Key not found");
+
+    const mode = _mode as IDefaultPolicyMode;
+    if (!DEFAULT_POLICY_MODES.includes(mode)) throw new Error("Invalid mode");
+
+    let rules;
+
+    try {
+        rules = _rules ? JSON.parse(_rules) : [];
+    } catch (e) {
+        throw new Error("Invalid rules");
+    }
+
+    const serializedRules = JSON.stringify(await validateDefaultPolicyRules(rules));
+
+    await prisma.keyDefaultPolicy.upsert({
+        where: { keyName },
+        update: { mode, rules: serializedRules },
+        create: { keyName, mode, rules: serializedRules },
+    });
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
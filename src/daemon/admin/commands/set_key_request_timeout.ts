@@ -0,0 +1,49 @@
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import { saveCurrentConfig } from "../../../config/index.js";
+import { validateMethod } from "../../lib/acl/index.js";
+
+/**
+ * Sets how long requests to a key wait for an admin's approval before they time out,
+ * for every method or for a single one. The timeout is stored in the config as
+ * keys.$keyId.pendingRequestTtl or keys.$keyId.pendingRequestTtlByMethod.$method.
+ *
+ * @param {AdminInterface} admin - The admin interface instance handling the request
+ * @param {NDKRpcRequest} req - The RPC request containing the key name, the timeout
+ *                              in seconds (0 to remove it) and optionally the method
+ * @returns {Promise<void>} A promise that resolves when the response is sent
+ * @throws {Error} If params are invalid, the method is unknown or the key doesn't exist
+ */
+export default async function setKeyRequestTimeout(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyName, _seconds, _method ] = req.params as [ string, string, string? ];
+
+    if (!keyName || _seconds === undefined) throw new Error("Invalid params");
+
+    const seconds = parseInt(_seconds);
+    if (isNaN(seconds) || seconds < 0) throw new Error("Invalid params");
+
+    const config = await admin.config();
+    const keyData = config.keys[keyName];
+
+    if (!keyData) throw new Error("Key not found");
+
+    if (_method) {
+        const method = validateMethod(_method);
+
+        keyData.pendingRequestTtlByMethod ??= {};
+        if (seconds > 0) {
+            keyData.pendingRequestTtlByMethod[method] = seconds;
+        } else {
+            delete keyData.pendingRequestTtlByMethod[method];
+        }
+    } else if (seconds > 0) {
+        keyData.pendingRequestTtl = seconds;
+    } else {
+        delete keyData.pendingRequestTtl;
+    }
+
+    await saveCurrentConfig(admin.configFile, config);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,40 @@
+/**
+ * Kind Group Command Handler
+ *
+ * Manages named groups of event kinds that signing conditions
+ * and policy rules can refer to, e.g. "social" = 1,6,7,16.
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { validateKindGroupName } from "../../lib/acl/kinds.js";
+import { invalidateKindGroups } from "../../lib/acl/cache.js";
+
+/**
+ * Creates or replaces a kind group
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the group name and a comma-separated list of kinds
+ * @returns Response indicating success
+ */
+export default async function setKindGroup(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ name, _kinds ] = req.params as [ string, string ];
+
+    if (!name || !_kinds) throw new Error("Invalid params");
+
+    validateKindGroupName(name);
+
+    const kinds = _kinds.split(',').map((k) => parseInt(k.trim()));
+    if (kinds.some((k) => isNaN(k) || k < 0)) throw new Error("Invalid kinds");
+
+    await prisma.kindGroup.upsert({
+        where: { name },
+        update: { kinds: JSON.stringify(kinds) },
+        create: { name, kinds: JSON.stringify(kinds) },
+    });
+
+    invalidateKindGroups();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
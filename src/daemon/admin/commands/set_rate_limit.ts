@@ -0,0 +1,63 @@
+/**
+ * Rate Limit Command Handler
+ *
+ * Manages the rate limits and quotas of key users.
+ * Features:
+ * - Per method and kind limits
+ * - Configurable time windows
+ * - Deny or escalate-to-admin actions
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { IRateLimitAction, RATE_LIMIT_ACTIONS } from "../../lib/acl/rate-limits.js";
+import { validateMethod } from "../../lib/acl/index.js";
+import { validateKindExpression } from "../../lib/acl/kinds.js";
+
+/**
+ * Creates or updates a rate limit of a key user.
+ * A limit is identified by its method, kind and window, so setting
+ * "sign_event, kind 1, per hour" twice updates the same limit.
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the limit details
+ * @returns Response indicating success
+ */
+export default async function setRateLimit(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyUserId, _method, _kind, _maxCount, _windowSeconds, _action ] = req.params as [ string, string, string, string, string, string? ];
+
+    if (!keyUserId || !_method || !_maxCount || !_windowSeconds) throw new Error("Invalid params");
+
+    const method = validateMethod(_method);
+    const keyUserIdInt = parseInt(keyUserId);
+    const maxCount = parseInt(_maxCount);
+    const windowSeconds = parseInt(_windowSeconds);
+    const kind = _kind && _kind !== 'all' ? _kind : null;
+    const action = (_action || 'deny') as IRateLimitAction;
+
+    if (isNaN(keyUserIdInt) || isNaN(maxCount) || isNaN(windowSeconds)) throw new Error("Invalid params");
+    if (maxCount < 0 || windowSeconds <= 0) throw new Error("Invalid params");
+    if (!RATE_LIMIT_ACTIONS.includes(action)) throw new Error("Invalid action");
+    if (kind !== null) await validateKindExpression(kind);
+
+    const keyUser = await prisma.keyUser.findUnique({ where: { id: keyUserIdInt } });
+    if (!keyUser) throw new Error("Key user not found");
+
+    const existing = await prisma.rateLimit.findFirst({
+        where: { keyUserId: keyUserIdInt, method, kind, windowSeconds }
+    });
+
+    if (existing) {
+        await prisma.rateLimit.update({
+            where: { id: existing.id },
+            data: { maxCount, action }
+        });
+    } else {
+        await prisma.rateLimit.create({
+            data: { keyUserId: keyUserIdInt, method, kind, maxCount, windowSeconds, action }
+        });
+    }
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,59 @@
+/**
+ * Signing Conditions Replacement Command Handler
+ *
+ * Manages the permission matrix of key users.
+ * Features:
+ * - Replaces every condition an admin granted in one go
+ * - Conditions granted by tokens are managed through the tokens
+ *   and are left untouched
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { ISigningConditionInput, signingConditionInputToQuery } from "../../lib/acl/index.js";
+import { invalidateKeyUserRuleSet } from "../../lib/acl/cache.js";
+
+/**
+ * Replaces the signing conditions of a key user
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the key user id and a JSON array of conditions
+ * @returns Response indicating success
+ */
+export default async function setSigningConditions(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyUserId, _conditions ] = req.params as [ string, string ];
+
+    if (!keyUserId || !_conditions) throw new Error("Invalid params");
+
+    const keyUserIdInt = parseInt(keyUserId);
+    if (isNaN(keyUserIdInt)) throw new Error("Invalid params");
+
+    let conditions: ISigningConditionInput[];
+
+    try {
+        conditions = JSON.parse(_conditions);
+    } catch (e) {
+        throw new Error("Invalid signing conditions");
+    }
+
+    if (!Array.isArray(conditions)) throw new Error("Invalid signing conditions");
+
+    const keyUser = await prisma.keyUser.findUnique({ where: { id: keyUserIdInt } });
+    if (!keyUser) throw new Error("Key user not found");
+
+    // Validate every condition before replacing anything
+    const data = await Promise.all(conditions.map(async (c) => ({
+        keyUserId: keyUserIdInt,
+        ...await signingConditionInputToQuery(c),
+    })));
+
+    await prisma.$transaction([
+        prisma.signingCondition.deleteMany({ where: { keyUserId: keyUserIdInt, tokenId: null } }),
+        ...data.map((d) => prisma.signingCondition.create({ data: d })),
+    ]);
+
+    invalidateKeyUserRuleSet(keyUserIdInt);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
@@ -0,0 +1,50 @@
+/**
+ * User Restoration Command Handler
+ *
+ * Manages the restoration of revoked user access.
+ * Features:
+ * - Undoes a revocation, restoring the user's permissions
+ * - Records who restored the user in the revocation history
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateKeyUserRuleSet } from "../../lib/acl/cache.js";
+
+/**
+ * Restores access for a revoked user
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing user ID
+ * @returns Response indicating success
+ */
+export default async function unrevokeUser(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ keyUserId ] = req.params as [ string ];
+
+    if (!keyUserId) throw new Error("Invalid params");
+
+    const keyUserIdInt = parseInt(keyUserId);
+    if (isNaN(keyUserIdInt)) throw new Error("Invalid params");
+
+    const keyUser = await prisma.keyUser.findUnique({ where: { id: keyUserIdInt } });
+    if (!keyUser) throw new Error("Key user not found");
+    if (!keyUser.revokedAt) throw new Error("Key user is not revoked");
+
+    const restoredAt = new Date();
+
+    await prisma.$transaction([
+        prisma.keyUser.update({
+            where: { id: keyUserIdInt },
+            data: { revokedAt: null },
+        }),
+        prisma.revocation.updateMany({
+            where: { keyUserId: keyUserIdInt, restoredAt: null },
+            data: { restoredAt, restoredBy: req.pubkey },
+        }),
+    ]);
+
+    invalidateKeyUserRuleSet(keyUserIdInt);
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
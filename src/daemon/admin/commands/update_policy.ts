@@ -0,0 +1,69 @@
+/**
+ * Policy Update Command Handler
+ *
+ * Manages changes to existing access policies.
+ * Features:
+ * - Renaming and describing policies
+ * - Changing or clearing the expiration
+ * - Changes apply to every client holding a token of the policy
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import AdminInterface from "../index.js";
+import prisma from "../../../db.js";
+import { invalidateAclCache } from "../../lib/acl/cache.js";
+
+/**
+ * Updates the name, description or expiration of a policy
+ * @param admin - Admin interface instance
+ * @param req - The RPC request containing the policy id and a JSON object
+ *              with the fields to change, e.g. {"name":"x","expires_at":null}
+ * @returns Response indicating success
+ */
+export default async function updatePolicy(admin: AdminInterface, req: NDKRpcRequest) {
+    const [ policyId, _changes ] = req.params as [ string, string ];
+
+    if (!policyId || !_changes) throw new Error("Invalid params");
+
+    const policyIdInt = parseInt(policyId);
+    if (isNaN(policyIdInt)) throw new Error("Invalid params");
+
+    let changes;
+
+    try {
+        changes = JSON.parse(_changes);
+    } catch (e) {
+        throw new Error("Invalid params");
+    }
+
+    const policy = await prisma.policy.findUnique({ where: { id: policyIdInt } });
+    if (!policy || policy.deletedAt) throw new Error("Policy not found");
+
+    const data: any = {};
+
+    if (changes.name !== undefined) {
+        if (typeof changes.name !== 'string' || !changes.name.trim()) throw new Error("Invalid name");
+        data.name = changes.name;
+    }
+
+    if (changes.description !== undefined) {
+        data.description = changes.description;
+    }
+
+    if (changes.expires_at !== undefined) {
+        const expiresAt = changes.expires_at === null ? null : new Date(changes.expires_at);
+        if (expiresAt && isNaN(expiresAt.getTime())) throw new Error("Invalid expiration");
+        data.expiresAt = expiresAt;
+    }
+
+    await prisma.policy.update({
+        where: { id: policyIdInt },
+        data,
+    });
+
+    // The expiration of a policy limits the grants of every token issued against it
+    invalidateAclCache();
+
+    const result = JSON.stringify(["ok"]);
+    return admin.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+}
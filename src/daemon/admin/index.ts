@@ -1,20 +1,53 @@
 import "websocket-polyfill";
 import NDK, { NDKEvent, NDKKind, NDKPrivateKeySigner, NDKRpcRequest, NDKRpcResponse, NDKUser, NostrEvent } from '@nostr-dev-kit/ndk';
 import { NDKNostrRpc } from '@nostr-dev-kit/ndk';
+import { nip19 } from 'nostr-tools';
 import createDebug from 'debug';
 import { Key, KeyUser } from '../run';
-import { allowAllRequestsFromKey } from '../lib/acl/index.js';
+import { IAllowScope, allowAllRequestsFromKey, isEncryptionMethod, rejectAllRequestsFromKey } from '../lib/acl/index.js';
+import { getKeyDefaultPolicy } from '../lib/acl/default-policy.js';
+import { getAclCacheStats } from '../lib/acl/cache.js';
+import { AUDIT_DECISIONS, IAuditDecision, logAdminAction, redactAdminParams } from '../lib/audit-log.js';
+import { IQuorumConfig, findCommandQuorumRule } from '../lib/quorum.js';
+import { IAuditCheckpointStores, getAuditCheckpointStores, loadExternalCheckpoints, verifyAuditLog } from '../lib/audit-chain.js';
+import { castVote, getPendingRequestTtl, listPendingRequests, waitForPendingRequest } from '../lib/pending-requests.js';
 import prisma from '../../db';
+import type { KeyUser as KeyUserRecord, Policy, PolicyRule, PolicyRuleUsage, Token, TokenRedemption } from '@prisma/client';
 import createAccount from './commands/create_account';
 import ping from './commands/ping.js';
 import createNewKey from './commands/create_new_key';
 import createNewPolicy from './commands/create_new_policy';
 import createNewToken from './commands/create_new_token';
+import updatePolicy from './commands/update_policy';
+import deletePolicy from './commands/delete_policy';
+import addPolicyRule from './commands/add_policy_rule';
+import removePolicyRule from './commands/remove_policy_rule';
+import revokeToken from './commands/revoke_token';
 import unlockKey from './commands/unlock_key';
+import lockKey from './commands/lock_key';
+import setKeyAutoLock from './commands/set_key_auto_lock';
+import setKeyRequestTimeout from './commands/set_key_request_timeout';
+import changeKeyPassphrase from './commands/change_key_passphrase';
+import deleteKey from './commands/delete_key';
+import addAdmin from './commands/add_admin';
+import removeAdmin from './commands/remove_admin';
+import approveRequest from './commands/approve_request';
+import denyRequest from './commands/deny_request';
 import renameKeyUser from './commands/rename_key_user.js';
 import revokeUser from './commands/revoke_user';
+import unrevokeUser from './commands/unrevoke_user';
+import addSigningCondition from './commands/add_signing_condition';
+import removeSigningCondition from './commands/remove_signing_condition';
+import setSigningConditions from './commands/set_signing_conditions';
+import setRateLimit from './commands/set_rate_limit';
+import removeRateLimit from './commands/remove_rate_limit';
+import explainPermission from './commands/explain_permission';
+import setKindGroup from './commands/set_kind_group';
+import deleteKindGroup from './commands/delete_kind_group';
+import setKeyDefaultPolicy from './commands/set_key_default_policy';
 import fs from 'fs';
 import { validateRequestFromAdmin } from './validations/request-from-admin';
+import { IAdminRole, IAdminRoleConfig, adminCanAccessKey, adminCanAnswerRequests, getAdminNpubs, getAdminRole, getMethodRole, roleSatisfies, validateAdminPermission } from './validations/admin-permissions';
 import { dmUser } from '../../utils/dm-user';
 import { IConfig, getCurrentConfig } from "../../config";
 import path from 'path';
@@ -24,9 +57,23 @@ const debug = createDebug("nsecbunker:admin");
 
 export type IAdminOpts = {
     npubs: string[];
+    // Admins added with add_admin; kept apart from npubs, which --admin and ADMIN_NPUBS replace
+    addedNpubs?: string[];
     adminRelays: string[];
     key: string;
     notifyAdminsOnBoot?: boolean;
+    // Seconds a request waits for an admin's approval
+    pendingRequestTtl?: number;
+    // Seconds a request waits for an admin's approval, by method
+    pendingRequestTtlByMethod?: Record<string, number>;
+    // Roles of the admins, by npub; admins without one are owners
+    roles?: Record<string, IAdminRoleConfig>;
+    // Minutes between signed checkpoints of the audit log
+    auditCheckpointMinutes?: number;
+    // File checkpoints of the audit log are appended to, besides being published to the admin relays
+    auditCheckpointFile?: string;
+    // Requests and commands that need the approval of several admins
+    quorum?: IQuorumConfig;
 }
 
 // TODO: Move to configuration
@@ -45,23 +92,27 @@ const allowNewKeys = true;
  */
 
 class AdminInterface {
-    private npubs: string[];
+    public npubs: string[];
     private ndk: NDK;
     private signerUser?: NDKUser;
     readonly rpc: NDKNostrRpc;
     readonly configFile: string;
+    readonly auditCheckpointStores: IAuditCheckpointStores;
     public getKeys?: () => Promise<Key[]>;
     public getKeyUsers?: (req: NDKRpcRequest) => Promise<KeyUser[]>;
     public unlockKey?: (keyName: string, passphrase: string) => Promise<boolean>;
     public loadNsec?: (keyName: string, nsec: string) => void;
+    public lockKey?: (keyName: string) => Promise<boolean>;
+    public unloadKey?: (keyName: string) => void;
 
     constructor(opts: IAdminOpts, configFile: string) {
         this.configFile = configFile;
-        this.npubs = opts.npubs||[];
+        this.npubs = getAdminNpubs(opts);
         this.ndk = new NDK({
             explicitRelayUrls: opts.adminRelays,
             signer: new NDKPrivateKeySigner(opts.key),
         });
+        this.auditCheckpointStores = getAuditCheckpointStores(opts, configFile, this.ndk);
         this.ndk.signer?.user().then((user: NDKUser) => {
             let connectionString = `bunker://${user.npub}`;
 
@@ -138,21 +189,57 @@ class AdminInterface {
 
     private async handleRequest(req: NDKRpcRequest) {
         try {
-            await this.validateRequest(req);
+            const roleConfig = await this.validateRequest(req);
+
+            // Commands that need several admins wait for their approval
+            if (roleConfig) await this.awaitCommandQuorum(req, roleConfig);
 
             switch (req.method) {
-                case 'get_keys': await this.reqGetKeys(req); break;
+                case 'get_keys': await this.reqGetKeys(req, roleConfig); break;
                 case 'get_key_users': await this.reqGetKeyUsers(req); break;
                 case 'rename_key_user': await renameKeyUser(this, req); break;
                 case 'get_key_tokens': await this.reqGetKeyTokens(req); break;
                 case 'revoke_user': await revokeUser(this, req); break;
+                case 'unrevoke_user': await unrevokeUser(this, req); break;
+                case 'add_signing_condition': await addSigningCondition(this, req); break;
+                case 'remove_signing_condition': await removeSigningCondition(this, req); break;
+                case 'set_signing_conditions': await setSigningConditions(this, req); break;
+                case 'set_rate_limit': await setRateLimit(this, req); break;
+                case 'remove_rate_limit': await removeRateLimit(this, req); break;
+                case 'explain_permission': await explainPermission(this, req); break;
+                case 'set_kind_group': await setKindGroup(this, req); break;
+                case 'delete_kind_group': await deleteKindGroup(this, req); break;
+                case 'get_kind_groups': await this.reqGetKindGroups(req); break;
+                case 'set_key_default_policy': await setKeyDefaultPolicy(this, req); break;
+                case 'get_key_default_policy': await this.reqGetKeyDefaultPolicy(req); break;
+                case 'get_acl_cache_stats': await this.reqGetAclCacheStats(req); break;
                 case 'create_new_key': await createNewKey(this, req); break;
                 case 'create_account': await createAccount(this, req); break;
                 case 'ping': await ping(this, req); break;
                 case 'unlock_key': await unlockKey(this, req); break;
+                case 'lock_key': await lockKey(this, req); break;
+                case 'set_key_auto_lock': await setKeyAutoLock(this, req); break;
+                case 'set_key_request_timeout': await setKeyRequestTimeout(this, req); break;
+                case 'change_key_passphrase': await changeKeyPassphrase(this, req); break;
+                case 'delete_key': await deleteKey(this, req); break;
                 case 'create_new_policy': await createNewPolicy(this, req); break;
                 case 'get_policies': await this.reqListPolicies(req); break;
+                case 'get_policy': await this.reqGetPolicy(req); break;
+                case 'update_policy': await updatePolicy(this, req); break;
+                case 'delete_policy': await deletePolicy(this, req); break;
+                case 'add_policy_rule': await addPolicyRule(this, req); break;
+                case 'remove_policy_rule': await removePolicyRule(this, req); break;
                 case 'create_new_token': await createNewToken(this, req); break;
+                case 'revoke_token': await revokeToken(this, req); break;
+                case 'list_tokens': await this.reqListTokens(req); break;
+                case 'list_pending_requests': await this.reqListPendingRequests(req); break;
+                case 'approve_request': await approveRequest(this, req); break;
+                case 'deny_request': await denyRequest(this, req); break;
+                case 'add_admin': await addAdmin(this, req); break;
+                case 'remove_admin': await removeAdmin(this, req); break;
+                case 'list_admins': await this.reqListAdmins(req); break;
+                case 'get_logs': await this.reqGetLogs(req); break;
+                case 'verify_audit_log': await this.reqVerifyAuditLog(req); break;
                 default:
                     const originalKind = req.event.kind!;
                     console.log(`Unknown method ${req.method}`);
@@ -163,8 +250,11 @@ class AdminInterface {
                         originalKind
                     );
             }
+
+            await logAdminAction(req);
         } catch (err: any) {
             debug(`Error handling request ${req.method}: ${err?.message??err}`, req.params);
+            await logAdminAction(req, err?.message);
             return this.rpc.sendResponse(req.id, req.pubkey, "error", NDKKind.NostrConnectAdmin, err?.message);
         }
     }
@@ -174,7 +264,7 @@ class AdminInterface {
      * Allows create_account requests if new keys are enabled
      * @param req - The incoming RPC request
      */
-    private async validateRequest(req: NDKRpcRequest): Promise<void> {
+    private async validateRequest(req: NDKRpcRequest): Promise<IAdminRoleConfig | undefined> {
         // Allow create_account requests if enabled
         if (req.method === 'create_account' && allowNewKeys) {
             console.log(`allowing create_account request`);
@@ -185,6 +275,86 @@ class AdminInterface {
         if (!await validateRequestFromAdmin(req, this.npubs)) {
             throw new Error('You are not designated to administrate this bunker');
         }
+
+        const roleConfig = getAdminRole(await this.config(), req.pubkey);
+        await validateAdminPermission(req, roleConfig);
+
+        return roleConfig;
+    }
+
+    /**
+     * Holds an admin command that needs the approval of several admins (admin.quorum.commands)
+     * until enough of them approve it with approve_request; the admin sending it counts as one.
+     * The other admins that can vote are sent a quorum request they can answer with
+     * ["approve"] or ["deny"].
+     * @throws Error if an admin denies the command or it isn't approved in time
+     */
+    private async awaitCommandQuorum(req: NDKRpcRequest, roleConfig: IAdminRoleConfig) {
+        const config = await this.config();
+        const quorum = findCommandQuorumRule(config, req.method);
+        if (!quorum) return;
+
+        const expiresAt = new Date(Date.now() + getPendingRequestTtl(config, undefined, req.method) * 1000);
+        const requiredRole = quorum.role ?? getMethodRole(req.method);
+        const params = redactAdminParams(req);
+
+        const pendingRequest = await prisma.request.create({
+            data: {
+                requestId: req.id,
+                remotePubkey: req.pubkey,
+                method: req.method,
+                params: JSON.stringify(params),
+                expiresAt,
+                requiredApprovals: quorum.approvals,
+                requiredRole,
+            }
+        });
+
+        const decision = waitForPendingRequest(pendingRequest.id, expiresAt);
+
+        if (roleSatisfies(roleConfig.role, requiredRole)) {
+            await castVote(pendingRequest.id, true, req.pubkey, roleConfig);
+        }
+
+        for (const npub of this.npubs) {
+            const remoteUser = new NDKUser({npub});
+            const voterRole = getAdminRole(config, remoteUser.pubkey);
+
+            if (remoteUser.pubkey === req.pubkey) continue;
+            if (voterRole.keys || !roleSatisfies(voterRole.role, requiredRole)) continue;
+
+            const quorumParams = JSON.stringify({
+                requestId: pendingRequest.id,
+                method: req.method,
+                params,
+                proposer: req.pubkey,
+                requiredApprovals: quorum.approvals,
+            });
+
+            this.rpc.sendRequest(remoteUser.pubkey, 'quorum', [quorumParams], 24134, (res: NDKRpcResponse) => {
+                // Only the admin the request was sent to can vote with its role
+                if (res.event.pubkey !== remoteUser.pubkey) return;
+
+                let vote;
+
+                try {
+                    vote = JSON.parse(res.result)[0];
+                } catch (e) {
+                    console.log('error parsing result', e);
+                    return;
+                }
+
+                if (vote !== 'approve' && vote !== 'deny') return;
+
+                castVote(pendingRequest.id, vote === 'approve', res.event.pubkey, voterRole)
+                    .catch((e) => console.log('castVote', e.message));
+            });
+        }
+
+        const allowed = await decision;
+
+        if (allowed === false) throw new Error(`${req.method} was denied by an admin`);
+        if (allowed === undefined) throw new Error(`${req.method} wasn't approved by enough admins in time`);
     }
 
     /**
@@ -199,14 +369,7 @@ class AdminInterface {
         const keyName = req.params[0];
         const tokens = await prisma.token.findMany({
             where: { keyName },
-            include: {
-                policy: {
-                    include: {
-                        rules: true,
-                    },
-                },
-                KeyUser: true,
-            },
+            include: tokenInclude,
         });
 
         // Format and return token data
@@ -217,52 +380,241 @@ class AdminInterface {
             return this.rpc.sendResponse(req.id, req.pubkey, JSON.stringify([]), 24134);
         }
 
-        const npub = key.npub;
-
-        const result = JSON.stringify(tokens.map((t) => ({
-            id: t.id,
-            key_name: t.keyName,
-            client_name: t.clientName,
-            token: [ npub, t.token ].join('#'),
-            policy_id: t.policyId,
-            policy_name: t.policy?.name,
-            created_at: t.createdAt,
-            updated_at: t.updatedAt,
-            expires_at: t.expiresAt,
-            redeemed_at: t.redeemedAt,
-            redeemed_by: t.KeyUser?.description,
-            time_until_expiration: t.expiresAt ? (t.expiresAt.getTime() - Date.now()) / 1000 : null,
-        })));
+        const result = JSON.stringify(tokens.map((t) => formatToken(t, key.npub!)));
 
         return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
     }
 
     /**
-     * Command to list policies
+     * Lists tokens across all keys
+     * @param req - The RPC request containing optional JSON filters:
+     *              key_name, policy_id, redeemed, expired and revoked
+     */
+    private async reqListTokens(req: NDKRpcRequest) {
+        const [ _filters ] = req.params as [ string? ];
+        let filters: Record<string, any>;
+
+        try {
+            filters = _filters ? JSON.parse(_filters) : {};
+        } catch (e) {
+            throw new Error("Invalid filters");
+        }
+
+        const now = new Date();
+        const where: any = { AND: [] };
+
+        if (filters.key_name) where.keyName = filters.key_name;
+        if (filters.policy_id !== undefined) {
+            where.policyId = parseInt(filters.policy_id);
+            if (isNaN(where.policyId)) throw new Error("Invalid filters");
+        }
+        if (filters.redeemed !== undefined) where.redeemedAt = filters.redeemed ? { not: null } : null;
+        if (filters.revoked !== undefined) where.deletedAt = filters.revoked ? { not: null } : null;
+        if (filters.expired === true) where.expiresAt = { lte: now };
+        if (filters.expired === false) where.AND.push({ OR: [ { expiresAt: null }, { expiresAt: { gt: now } } ] });
+
+        const tokens = await prisma.token.findMany({
+            where,
+            include: tokenInclude,
+            orderBy: { createdAt: 'desc' },
+        });
+
+        const keys = await this.getKeys!();
+        const npubs = Object.fromEntries(keys.map((k) => [ k.name, k.npub ]));
+
+        const result = JSON.stringify(tokens.map((t) => formatToken(t, npubs[t.keyName])));
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to list policies, including the remaining usage
+     * of each rule for every token redeemed against them
      */
     private async reqListPolicies(req: NDKRpcRequest) {
         const policies = await prisma.policy.findMany({
-            include: {
-                rules: true,
-            },
+            where: { deletedAt: null },
+            include: policyInclude,
+        });
+
+        const result = JSON.stringify(policies.map(formatPolicy));
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to inspect a single policy, including its deleted state
+     * and the tokens issued against it
+     */
+    private async reqGetPolicy(req: NDKRpcRequest) {
+        const [ policyId ] = req.params as [ string ];
+        const policyIdInt = parseInt(policyId);
+
+        if (isNaN(policyIdInt)) throw new Error("Invalid params");
+
+        const policy = await prisma.policy.findUnique({
+            where: { id: policyIdInt },
+            include: { ...policyInclude, _count: { select: { Token: true } } },
+        });
+
+        if (!policy) throw new Error("Policy not found");
+
+        const result = JSON.stringify({
+            ...formatPolicy(policy),
+            deleted_at: policy.deletedAt,
+            issued_tokens: policy._count.Token,
+        });
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to list kind groups
+     */
+    private async reqGetKindGroups(req: NDKRpcRequest) {
+        const groups = await prisma.kindGroup.findMany();
+
+        const result = JSON.stringify(groups.map((g) => ({
+            name: g.name,
+            kinds: JSON.parse(g.kinds),
+            created_at: g.createdAt,
+            updated_at: g.updatedAt,
+        })));
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to fetch how a key treats clients it doesn't know yet
+     */
+    private async reqGetKeyDefaultPolicy(req: NDKRpcRequest) {
+        const [ keyName ] = req.params as [ string ];
+
+        if (!keyName) throw new Error("Invalid params");
+
+        const policy = await getKeyDefaultPolicy(keyName);
+        const result = JSON.stringify({ key_name: keyName, ...policy });
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to list the requests waiting for an admin's approval,
+     * optionally only those for one key
+     */
+    private async reqListPendingRequests(req: NDKRpcRequest) {
+        const [ keyName ] = req.params as [ string? ];
+
+        const requests = await listPendingRequests(keyName || undefined);
+
+        const result = JSON.stringify(requests.map((r) => ({
+            id: r.id,
+            key_name: r.keyName,
+            remote_pubkey: r.remotePubkey,
+            method: r.method,
+            params: r.params,
+            created_at: r.createdAt,
+            expires_at: r.expiresAt,
+            required_approvals: r.requiredApprovals,
+            required_role: r.requiredRole,
+            approved_by: r.votes.filter((v) => v.approve).map((v) => v.adminPubkey),
+        })));
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to query the audit log, newest entries first.
+     * Filters: key_name, client (npub or hex pubkey), method, decision, type,
+     * since/until (unix timestamps), limit (at most 1000) and offset
+     */
+    private async reqGetLogs(req: NDKRpcRequest) {
+        const [ _filters ] = req.params as [ string? ];
+        let filters: Record<string, any>;
+
+        try {
+            filters = _filters ? JSON.parse(_filters) : {};
+        } catch (e) {
+            throw new Error("Invalid filters");
+        }
+
+        const where: any = {};
+
+        if (filters.key_name) where.keyName = filters.key_name;
+        if (filters.client) {
+            where.remotePubkey = filters.client.startsWith('npub')
+                ? nip19.decode(filters.client).data as string
+                : filters.client;
+        }
+        if (filters.method) where.method = filters.method;
+        if (filters.type) where.type = filters.type;
+        if (filters.decision) {
+            if (!AUDIT_DECISIONS.includes(filters.decision as IAuditDecision)) throw new Error("Invalid filters");
+            where.decision = filters.decision;
+        }
+        if (filters.since !== undefined || filters.until !== undefined) {
+            where.timestamp = {};
+            if (filters.since !== undefined) where.timestamp.gte = new Date(filters.since * 1000);
+            if (filters.until !== undefined) where.timestamp.lte = new Date(filters.until * 1000);
+        }
+
+        const limit = Math.min(parseInt(filters.limit ?? 100), 1000);
+        const offset = parseInt(filters.offset ?? 0);
+        if (isNaN(limit) || isNaN(offset) || limit < 1 || offset < 0) throw new Error("Invalid filters");
+
+        const logs = await prisma.log.findMany({
+            where,
+            orderBy: { id: 'desc' },
+            take: limit,
+            skip: offset,
         });
 
-        const result = JSON.stringify(policies.map((p) => {
+        const result = JSON.stringify(logs.map((l) => ({
+            id: l.id,
+            timestamp: l.timestamp,
+            type: l.type,
+            key_name: l.keyName,
+            client: l.remotePubkey,
+            key_user_id: l.keyUserId,
+            method: l.method,
+            kind: l.kind,
+            content_hash: l.contentHash,
+            params: l.params,
+            decision: l.decision,
+            reason: l.reason,
+            admin_pubkey: l.adminPubkey,
+            hash: l.hash,
+        })));
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to check that the audit log hasn't been tampered with:
+     * its hash chain is intact, its checkpoints are signed by this bunker and
+     * it still matches the latest checkpoint kept outside the database
+     */
+    private async reqVerifyAuditLog(req: NDKRpcRequest) {
+        const pubkey = this.signerUser!.pubkey;
+        const externalCheckpoints = await loadExternalCheckpoints(pubkey, this.auditCheckpointStores);
+        const result = JSON.stringify(await verifyAuditLog(pubkey, externalCheckpoints));
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to list the admins of the bunker and their roles
+     */
+    private async reqListAdmins(req: NDKRpcRequest) {
+        const config = await this.config();
+
+        const result = JSON.stringify(this.npubs.map((npub) => {
+            const roleConfig = config.admin.roles?.[npub] ?? { role: 'owner' };
+
             return {
-                id: p.id,
-                name: p.name,
-                description: p.description,
-                created_at: p.createdAt,
-                updated_at: p.updatedAt,
-                expires_at: p.expiresAt,
-                rules: p.rules.map((r) => {
-                    return {
-                        method: r.method,
-                        kind: r.kind,
-                        max_usage_count: r.maxUsageCount,
-                        current_usage_count: r.currentUsageCount,
-                    };
-                })
+                npub,
+                role: roleConfig.role,
+                keys: roleConfig.keys ?? null,
             };
         }));
 
@@ -270,12 +622,25 @@ class AdminInterface {
     }
 
     /**
-     * Command to fetch keys and their current state
+     * Command to fetch the hit/miss counters of the ACL cache
+     */
+    private async reqGetAclCacheStats(req: NDKRpcRequest) {
+        const result = JSON.stringify(getAclCacheStats());
+
+        return this.rpc.sendResponse(req.id, req.pubkey, result, 24134);
+    }
+
+    /**
+     * Command to fetch keys and their current state,
+     * limited to the keys the admin can manage
      */
-    private async reqGetKeys(req: NDKRpcRequest) {
+    private async reqGetKeys(req: NDKRpcRequest, roleConfig?: IAdminRoleConfig) {
         if (!this.getKeys) throw new Error('getKeys() not implemented');
 
-        const result = JSON.stringify(await this.getKeys());
+        let keys = await this.getKeys();
+        if (roleConfig) keys = keys.filter((k) => adminCanAccessKey(roleConfig, k.name));
+
+        const result = JSON.stringify(keys);
         const pubkey = req.pubkey;
 
         return this.rpc.sendResponse(req.id, pubkey, result, 24134); // 24134
@@ -297,9 +662,14 @@ class AdminInterface {
      * This function is called when a request is received from a remote user that needs
      * to be approved by the admin interface.
      *
+     * The request stays pending until an admin answers it, either by replying to the acl
+     * request or with approve_request/deny_request, or until it expires.
+     *
+     * @param pendingRequestId - Id of the Request record tracking this request
      * @returns true if the request is approved, false if it is denied, undefined if it timedout
      */
     public async requestPermission(
+        pendingRequestId: string,
         keyName: string,
         remotePubkey: string,
         method: string,
@@ -325,60 +695,90 @@ class AdminInterface {
                 content: e.content,
                 tags: e.tags,
             });
+        } else if (isEncryptionMethod(method) && Array.isArray(param)) {
+            console.log(`🔐 ${method} with ${param[0]}`);
         }
 
-        return new Promise((resolve, reject) => {
-            console.log(`requesting permission for`, keyName);
-            console.log(`remotePubkey`, remotePubkey);
-            console.log(`method`, method);
-            console.log(`param`, param);
-            console.log(`keyUser`, keyUser);
-
-            /**
-             * If an admin doesn't respond within 10 seconds, report back to the user that the request timed out
-             */
-            setTimeout(() => {
-                resolve(undefined);
-            }, 10000);
-
-            for (const npub of this.npubs) {
-                const remoteUser = new NDKUser({npub});
-                console.log(`sending request to ${npub}`, remoteUser.pubkey);
-                const params = JSON.stringify({
-                    keyName,
-                    remotePubkey,
-                    method,
-                    param,
-                    description: keyUser?.description,
-                });
-
-                this.rpc.sendRequest(
-                    remoteUser.pubkey,
-                    'acl',
-                    [params],
-                    24134,
-                    (res: NDKRpcResponse) => {
-                        this.requestPermissionResponse(
-                            remotePubkey,
-                            keyName,
-                            method,
-                            param,
-                            resolve,
-                            res
-                        );
-                    }
-                );
-            }
-        });
+        console.log(`requesting permission for`, keyName);
+        console.log(`remotePubkey`, remotePubkey);
+        console.log(`method`, method);
+        console.log(`param`, param);
+        console.log(`keyUser`, keyUser);
+
+        const config = await this.config();
+        const pendingRequest = await prisma.request.findUnique({ where: { id: pendingRequestId } });
+        if (!pendingRequest?.expiresAt) return undefined;
+
+        const decision = waitForPendingRequest(pendingRequestId, pendingRequest.expiresAt);
+        const requiredApprovals = pendingRequest.requiredApprovals;
+        const requiredRole = pendingRequest.requiredRole as IAdminRole | null;
+
+        for (const npub of this.npubs) {
+            const remoteUser = new NDKUser({npub});
+            const roleConfig = getAdminRole(config, remoteUser.pubkey);
+
+            // Only ask the admins that can answer requests for this key
+            if (!adminCanAnswerRequests(roleConfig, keyName)) continue;
+            if (requiredRole && !roleSatisfies(roleConfig.role, requiredRole)) continue;
+
+            console.log(`sending request to ${npub}`, remoteUser.pubkey);
+            const params = JSON.stringify({
+                requestId: pendingRequestId,
+                keyName,
+                remotePubkey,
+                method,
+                param,
+                counterparty: isEncryptionMethod(method) && Array.isArray(param) ? param[0] : undefined,
+                description: keyUser?.description,
+                requiredApprovals,
+            });
+
+            this.rpc.sendRequest(
+                remoteUser.pubkey,
+                'acl',
+                [params],
+                24134,
+                (res: NDKRpcResponse) => {
+                    // Only the admin the request was sent to can answer with its role
+                    if (res.event.pubkey !== remoteUser.pubkey) return;
+
+                    this.requestPermissionResponse(
+                        remotePubkey,
+                        keyName,
+                        method,
+                        param,
+                        (allowed: boolean) => {
+                            castVote(pendingRequestId, allowed, res.event.pubkey, roleConfig)
+                                .catch((e) => console.log('castVote', e.message));
+                        },
+                        res,
+                        // A single admin can't allow future requests that need several admins
+                        requiredApprovals <= 1
+                    );
+                }
+            );
+        }
+
+        return decision;
     }
 
+    /**
+     * Handles an admin's answer to a permission request:
+     * - ["always", description?, scope?] allows the request and persists an allow rule,
+     *   unless persistAllowRule is false
+     * - ["never", description?, scope?] denies the request and persists a deny rule;
+     *   the scope is either "client", to deny every request from the client, or the
+     *   kind/restrictions to deny. Without a scope, the method (and for sign_event,
+     *   the kind of the event) is denied.
+     */
     public async requestPermissionResponse(
         remotePubkey: string,
         keyName: string,
         method: string,
         param: string,
         resolve: (value: boolean) => void,
-        res: NDKRpcResponse
+        res: NDKRpcResponse,
+        persistAllowRule = true
     ) {
         let resObj;
         try {
@@ -390,19 +790,38 @@ class AdminInterface {
 
         switch (resObj[0]) {
             case 'always': {
-                allowAllRequestsFromKey(
-                    remotePubkey,
-                    keyName,
-                    method,
-                    param,
-                    resObj[1],
-                    resObj[2]
-                );
+                if (persistAllowRule) {
+                    allowAllRequestsFromKey(
+                        remotePubkey,
+                        keyName,
+                        method,
+                        param,
+                        resObj[1],
+                        resObj[2]
+                    );
+                }
                 resolve(true);
                 break;
             }
             case 'never': {
-                console.log('not implemented');
+                const [ , description, scope ] = resObj;
+
+                try {
+                    if (scope === 'client') {
+                        await rejectAllRequestsFromKey(remotePubkey, keyName, '*', description);
+                    } else {
+                        await rejectAllRequestsFromKey(
+                            remotePubkey,
+                            keyName,
+                            method,
+                            description,
+                            scope ?? denyScopeForRequest(method, param)
+                        );
+                    }
+                } catch (e) {
+                    console.log('rejectAllRequestsFromKey', e);
+                }
+                resolve(false);
                 break;
             }
             default:
@@ -411,6 +830,122 @@ class AdminInterface {
     }
 }
 
+const tokenInclude = {
+    policy: true,
+    KeyUser: true,
+    redemptions: true,
+};
+
+type ITokenWithRedemptions = Token & {
+    policy: Policy | null;
+    KeyUser: KeyUserRecord | null;
+    redemptions: TokenRedemption[];
+};
+
+/**
+ * Formats a token for get_key_tokens/list_tokens
+ * @param npub - npub of the token's key, needed to build the connection string
+ */
+function formatToken(t: ITokenWithRedemptions, npub?: string) {
+    return {
+        id: t.id,
+        key_name: t.keyName,
+        client_name: t.clientName,
+        token: npub ? [ npub, t.token ].join('#') : undefined,
+        policy_id: t.policyId,
+        policy_name: t.policy?.name,
+        created_at: t.createdAt,
+        updated_at: t.updatedAt,
+        expires_at: t.expiresAt,
+        revoked_at: t.deletedAt,
+        redeemed_at: t.redeemedAt,
+        redeemed_by: t.KeyUser?.description,
+        max_redemptions: t.maxRedemptions,
+        redemptions: t.redemptions.length,
+        time_until_expiration: t.expiresAt ? (t.expiresAt.getTime() - Date.now()) / 1000 : null,
+    };
+}
+
+const policyInclude = {
+    rules: true,
+    Token: {
+        where: { redeemedAt: { not: null } },
+        include: { ruleUsages: true, redemptions: true },
+    },
+};
+
+type IPolicyWithTokens = Policy & {
+    rules: PolicyRule[];
+    Token: (Token & { ruleUsages: PolicyRuleUsage[], redemptions: TokenRedemption[] })[];
+};
+
+/**
+ * Formats a policy for get_policies/get_policy, including the remaining
+ * usage of each rule for every redemption of the tokens issued against it
+ */
+function formatPolicy(p: IPolicyWithTokens) {
+    return {
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        created_at: p.createdAt,
+        updated_at: p.updatedAt,
+        expires_at: p.expiresAt,
+        rules: p.rules.map((r) => {
+            return {
+                id: r.id,
+                method: r.method,
+                kind: r.kind,
+                max_usage_count: r.maxUsageCount,
+                current_usage_count: r.currentUsageCount,
+            };
+        }),
+        tokens: p.Token.map((t) => {
+            return {
+                id: t.id,
+                client_name: t.clientName,
+                redeemed_at: t.redeemedAt,
+                max_redemptions: t.maxRedemptions,
+                redemptions: t.redemptions.map((redemption) => ({
+                    key_user_id: redemption.keyUserId,
+                    redeemed_at: redemption.redeemedAt,
+                    rules: p.rules.map((r) => {
+                        const used = t.ruleUsages.find((u) =>
+                            u.policyRuleId === r.id && u.keyUserId === redemption.keyUserId
+                        )?.count ?? 0;
+
+                        return {
+                            policy_rule_id: r.id,
+                            method: r.method,
+                            kind: r.kind,
+                            max_usage_count: r.maxUsageCount,
+                            current_usage_count: used,
+                            remaining_usage: r.maxUsageCount !== null ? Math.max(r.maxUsageCount - used, 0) : null,
+                        };
+                    }),
+                })),
+            };
+        }),
+    };
+}
+
+/**
+ * The scope of a "never" answer that didn't specify one:
+ * sign_event requests are denied for the kind of the event being signed
+ */
+function denyScopeForRequest(method: string, param: string): IAllowScope | undefined {
+    if (method !== 'sign_event') return undefined;
+
+    try {
+        const event = JSON.parse(param);
+        if (typeof event.kind === 'number') return { kind: event.kind };
+    } catch (e) {
+        console.log('error parsing event', e);
+    }
+
+    return undefined;
+}
+
 async function pingOrDie(ndk: NDK) {
     let deathTimer: NodeJS.Timeout | null = null;
     
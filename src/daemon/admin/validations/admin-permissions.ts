@@ -0,0 +1,243 @@
+/**
+ * Admin Permissions Module
+ *
+ * Decides what each admin is allowed to do. Handles:
+ * - Roles: owners can do everything, operators can also answer pending
+ *   requests and manage tokens, viewers can only read
+ * - Key scopes: an admin can be limited to a list of keys
+ */
+
+import { NDKRpcRequest } from "@nostr-dev-kit/ndk";
+import { nip19 } from "nostr-tools";
+import prisma from "../../../db.js";
+import type { IConfig } from "../../../config/index.js";
+import type { IAdminOpts } from "../index.js";
+
+export type IAdminRole = 'owner' | 'operator' | 'viewer';
+
+export const ADMIN_ROLES: IAdminRole[] = [ 'owner', 'operator', 'viewer' ];
+
+/**
+ * Role of an admin, stored in admin.roles.$npub
+ */
+export type IAdminRoleConfig = {
+    role: IAdminRole;
+    // Names of the keys the admin can manage; every key when not set
+    keys?: string[];
+};
+
+/**
+ * Methods that don't need to be an owner, with the least role that can call them.
+ * Every other method can only be called by owners.
+ */
+const METHOD_ROLES: Record<string, IAdminRole> = {
+    ping: 'viewer',
+    get_keys: 'viewer',
+    get_key_users: 'viewer',
+    get_key_tokens: 'viewer',
+    get_key_default_policy: 'viewer',
+    get_kind_groups: 'viewer',
+    get_policies: 'viewer',
+    get_policy: 'viewer',
+    get_acl_cache_stats: 'viewer',
+    list_tokens: 'viewer',
+    list_pending_requests: 'viewer',
+    explain_permission: 'viewer',
+    list_admins: 'viewer',
+    get_logs: 'viewer',
+    approve_request: 'operator',
+    deny_request: 'operator',
+    create_new_token: 'operator',
+    revoke_token: 'operator',
+};
+
+/**
+ * Methods admins limited to some keys can call without naming a key;
+ * their handlers only return the keys in scope
+ */
+const UNSCOPED_METHODS = [ 'ping', 'get_keys' ];
+
+type IKeyNameResolver = (params: string[]) => Promise<string | null | undefined>;
+
+const keyNameParam: IKeyNameResolver = async ([ keyName ]) => keyName;
+
+const keyUserKeyName: IKeyNameResolver = async ([ keyUserId ]) => {
+    const id = parseInt(keyUserId);
+    if (isNaN(id)) return undefined;
+
+    return (await prisma.keyUser.findUnique({ where: { id } }))?.keyName;
+};
+
+const filtersKeyName: IKeyNameResolver = async ([ filters ]) => {
+    try {
+        return filters ? JSON.parse(filters).key_name : undefined;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+const pendingRequestKeyName: IKeyNameResolver = async ([ requestId ]) => {
+    if (!requestId) return undefined;
+
+    return (await prisma.request.findUnique({ where: { id: requestId } }))?.keyName;
+};
+
+/**
+ * How to find the key a method acts on, for the methods admins limited
+ * to some keys can call
+ */
+const KEY_NAME_RESOLVERS: Record<string, IKeyNameResolver> = {
+    get_key_users: keyNameParam,
+    get_key_tokens: keyNameParam,
+    get_key_default_policy: keyNameParam,
+    set_key_default_policy: keyNameParam,
+    explain_permission: keyNameParam,
+    list_pending_requests: keyNameParam,
+    create_new_token: keyNameParam,
+    unlock_key: keyNameParam,
+    lock_key: keyNameParam,
+    set_key_auto_lock: keyNameParam,
+    set_key_request_timeout: keyNameParam,
+    change_key_passphrase: keyNameParam,
+    delete_key: keyNameParam,
+    rename_key_user: keyUserKeyName,
+    revoke_user: keyUserKeyName,
+    unrevoke_user: keyUserKeyName,
+    add_signing_condition: keyUserKeyName,
+    remove_signing_condition: keyUserKeyName,
+    set_signing_conditions: keyUserKeyName,
+    set_rate_limit: keyUserKeyName,
+    approve_request: pendingRequestKeyName,
+    deny_request: pendingRequestKeyName,
+    remove_rate_limit: async ([ rateLimitId ]) => {
+        const id = parseInt(rateLimitId);
+        if (isNaN(id)) return undefined;
+
+        const rateLimit = await prisma.rateLimit.findUnique({ where: { id }, include: { KeyUser: true } });
+        return rateLimit?.KeyUser.keyName;
+    },
+    revoke_token: async ([ tokenId ]) => {
+        const id = parseInt(tokenId);
+        if (isNaN(id)) return undefined;
+
+        return (await prisma.token.findUnique({ where: { id } }))?.keyName;
+    },
+    list_tokens: filtersKeyName,
+    get_logs: filtersKeyName,
+};
+
+/**
+ * Finds the role of an admin. Admins without a configured role are owners.
+ * @param config - The current configuration
+ * @param pubkey - Hex pubkey of the admin
+ */
+export function getAdminRole(config: IConfig, pubkey: string): IAdminRoleConfig {
+    for (const [ npub, roleConfig ] of Object.entries(config.admin.roles ?? {})) {
+        if (nip19.decode(npub).data === pubkey) return roleConfig;
+    }
+
+    return { role: 'owner' };
+}
+
+/**
+ * Converts an npub or hex pubkey to an npub
+ * @throws Error if it's neither
+ */
+export function normalizeAdminNpub(npubOrPubkey: string): string {
+    if (/^[0-9a-f]{64}$/.test(npubOrPubkey)) return nip19.npubEncode(npubOrPubkey);
+
+    try {
+        const { type } = nip19.decode(npubOrPubkey);
+        if (type === 'npub') return npubOrPubkey;
+    } catch (e) {}
+
+    throw new Error(`Invalid npub ${npubOrPubkey}`);
+}
+
+/**
+ * Npubs of all the admins: the configured ones and the ones added with add_admin
+ */
+export function getAdminNpubs(opts: IAdminOpts): string[] {
+    return [ ...new Set([ ...(opts.npubs ?? []), ...(opts.addedNpubs ?? []) ]) ];
+}
+
+/**
+ * Npubs of the admins that can manage the whole bunker:
+ * owners that aren't limited to some keys
+ */
+export function getOwnerNpubs(config: IConfig): string[] {
+    return getAdminNpubs(config.admin).filter((npub) => {
+        const roleConfig = config.admin.roles?.[npub] ?? { role: 'owner' };
+        return roleConfig.role === 'owner' && !roleConfig.keys;
+    });
+}
+
+/**
+ * Validates a role before it gets stored
+ * @throws Error if the role is unknown or the key scope is malformed
+ */
+export function validateAdminRole(roleConfig: IAdminRoleConfig) {
+    if (!ADMIN_ROLES.includes(roleConfig.role)) throw new Error(`Unknown role ${roleConfig.role}`);
+
+    const { keys } = roleConfig;
+    if (keys !== undefined && (!Array.isArray(keys) || keys.some((k) => typeof k !== 'string'))) {
+        throw new Error("Invalid keys");
+    }
+}
+
+/**
+ * Whether an admin can manage a key
+ */
+export function adminCanAccessKey(roleConfig: IAdminRoleConfig, keyName: string): boolean {
+    return !roleConfig.keys || roleConfig.keys.includes(keyName);
+}
+
+/**
+ * The least role that can call a method
+ */
+export function getMethodRole(method: string): IAdminRole {
+    return METHOD_ROLES[method] ?? 'owner';
+}
+
+/**
+ * Whether a role is the required role or a more powerful one
+ */
+export function roleSatisfies(role: IAdminRole, requiredRole: IAdminRole): boolean {
+    return ADMIN_ROLES.indexOf(role) <= ADMIN_ROLES.indexOf(requiredRole);
+}
+
+/**
+ * Whether a role can call a method
+ */
+function roleAllowsMethod(role: IAdminRole, method: string): boolean {
+    return roleSatisfies(role, getMethodRole(method));
+}
+
+/**
+ * Whether an admin can approve or deny the requests made to a key
+ */
+export function adminCanAnswerRequests(roleConfig: IAdminRoleConfig, keyName: string): boolean {
+    return roleAllowsMethod(roleConfig.role, 'approve_request') && adminCanAccessKey(roleConfig, keyName);
+}
+
+/**
+ * Checks that an admin's role allows the method of a request and,
+ * for admins limited to some keys, that the request acts on one of them
+ * @throws Error if the admin isn't allowed to make the request
+ */
+export async function validateAdminPermission(req: NDKRpcRequest, roleConfig: IAdminRoleConfig) {
+    if (!roleAllowsMethod(roleConfig.role, req.method)) {
+        throw new Error(`The ${roleConfig.role} role is not allowed to ${req.method}`);
+    }
+
+    if (!roleConfig.keys || UNSCOPED_METHODS.includes(req.method)) return;
+
+    const resolveKeyName = KEY_NAME_RESOLVERS[req.method];
+    if (!resolveKeyName) throw new Error(`Admins limited to some keys are not allowed to ${req.method}`);
+
+    const keyName = await resolveKeyName(req.params as string[]);
+
+    if (!keyName || !adminCanAccessKey(roleConfig, keyName)) {
+        throw new Error(`You are not allowed to ${req.method} for this key`);
+    }
+}
@@ -4,6 +4,8 @@ import prisma from "../db";
 import type { Request } from "@prisma/client";
 import AdminInterface from "./admin";
 import { IConfig } from "../config";
+import { getPendingRequestTtl } from "./lib/pending-requests";
+import { findRequestQuorumRule } from "./lib/quorum";
 
 let baseUrl: string | undefined | null;
 
@@ -15,7 +17,7 @@ let baseUrl: string | undefined | null;
  * @param remotePubkey - The public key of the remote party requesting authorization
  * @param requestId - Unique identifier for this authorization request
  * @param method - The method being requested
- * @param param - Optional parameters for the request, can be a string or NDKEvent
+ * @param param - Optional parameters for the request, can be a string, [ counterparty, payload ] or NDKEvent
  * @returns Promise resolving to a string when authorization is complete
  * @throws Will reject if authorization is denied
  */
@@ -25,22 +27,25 @@ export async function requestAuthorization(
     remotePubkey: Hexpubkey,
     requestId: string,
     method: string,
-    param?: string | NDKEvent
+    param?: string | string[] | NDKEvent
 ) {
-    const request = await createRecord(keyName, requestId, remotePubkey, method, param);
+    // Read the config on every request, timeouts can be changed at runtime
+    const config = await admin.config();
 
     if (baseUrl === undefined) {
-        const config = await admin.config();
         baseUrl = config.baseUrl;
         console.log('baseUrl', baseUrl);
     }
 
+    const request = await createRecord(config, keyName, requestId, remotePubkey, method, param);
+
     return new Promise<string>((resolve, reject) => {
-        if (baseUrl) {
+        // Requests that need several admins can only be approved by the admins
+        if (baseUrl && request.requiredApprovals <= 1) {
             // If we have a URL, request authorization through web
             urlAuthFlow(baseUrl, admin, remotePubkey, requestId, request, resolve, reject);
         } else {
-            adminAuthFlow(admin, keyName, remotePubkey, method, param, resolve, reject);
+            adminAuthFlow(admin, request, keyName, remotePubkey, method, param, resolve, reject);
         }
     });
 }
@@ -49,6 +54,7 @@ export async function requestAuthorization(
  * Handles the authorization flow when communicating directly with an admin
  *
  * @param adminInterface - The admin interface instance
+ * @param request - The request record from the database
  * @param keyName - Optional identifier for the key being authorized
  * @param remotePubkey - The public key of the remote party
  * @param method - The method being requested
@@ -56,8 +62,14 @@ export async function requestAuthorization(
  * @param resolve - Promise resolution callback
  * @param reject - Promise rejection callback
  */
-async function adminAuthFlow(adminInterface, keyName, remotePubkey, method, param, resolve, reject) {
-    const requestedPerm = await adminInterface.requestPermission(keyName, remotePubkey, method, param);
+async function adminAuthFlow(adminInterface, request: Request, keyName, remotePubkey, method, param, resolve, reject) {
+    // Let the client know the request is waiting for the admins. Clients only
+    // treat auth_url as a non-final response, so nothing is sent without a URL.
+    if (baseUrl) {
+        adminInterface.rpc.sendResponse(request.requestId, remotePubkey, "auth_url", undefined, generatePendingAuthUrl(baseUrl, request));
+    }
+
+    const requestedPerm = await adminInterface.requestPermission(request.id, keyName, remotePubkey, method, param);
 
     if (requestedPerm) {
         console.log('resolve adminAuthFlow', !!requestedPerm);
@@ -69,8 +81,10 @@ async function adminAuthFlow(adminInterface, keyName, remotePubkey, method, para
 }
 
 /**
- * Creates a database record for the authorization request
+ * Creates a database record for the authorization request; it expires
+ * after the timeout configured for the key and method
  *
+ * @param config - The current configuration
  * @param keyName - Optional identifier for the key being authorized
  * @param requestId - Unique identifier for this authorization request
  * @param remotePubkey - The public key of the remote party
@@ -79,21 +93,28 @@ async function adminAuthFlow(adminInterface, keyName, remotePubkey, method, para
  * @returns The created request record
  */
 async function createRecord(
+    config: IConfig,
     keyName: string | undefined,
     requestId: string,
     remotePubkey: string,
     method: string,
-    param?: string | NDKEvent,
+    param?: string | string[] | NDKEvent,
 ) {
     let params: string | undefined;
 
-    if (param?.rawEvent) {
+    if ((param as NDKEvent)?.rawEvent) {
         const e = param as NDKEvent;
         params = JSON.stringify(e.rawEvent());
+    } else if (Array.isArray(param)) {
+        // encrypt/decrypt requests carry [ counterparty, payload ]
+        params = JSON.stringify(param);
     } else if (param) {
         params = param.toString();
     }
 
+    const kind = method === 'sign_event' ? (param as NDKEvent)?.kind : undefined;
+    const quorum = findRequestQuorumRule(config, keyName, method, kind);
+
     // Create an authorization request record
     const request = await prisma.request.create({
         data: {
@@ -101,11 +122,12 @@ async function createRecord(
             requestId,
             remotePubkey,
             method,
-            params
+            params,
+            expiresAt: new Date(Date.now() + getPendingRequestTtl(config, keyName, method) * 1000),
+            requiredApprovals: quorum?.approvals,
+            requiredRole: quorum?.role,
         }
     });
-    // Attempt to clean it when it expires
-    setTimeout(() => { prisma.request.delete({ where: { id: request.id }}); }, 60000);
 
     return request;
 }
@@ -143,8 +165,10 @@ export function urlAuthFlow(
             where: { id: request.id }
         });
 
-        if (!record) {
+        // Stop waiting once the request is gone or has expired
+        if (!record || (record.allowed === null && record.expiresAt && record.expiresAt <= new Date())) {
             clearInterval(checkingInterval);
+            reject();
             return;
         }
 
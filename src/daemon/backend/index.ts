@@ -1,6 +1,13 @@
-import NDK, { NDKNip46Backend, NDKPrivateKeySigner, Nip46PermitCallback } from '@nostr-dev-kit/ndk';
+import NDK, { NDKEvent, NDKNip46Backend, NDKPrivateKeySigner, NDKSubscription, NIP46Method, Nip46PermitCallbackParams } from '@nostr-dev-kit/ndk';
 import prisma from '../../db.js';
+import { getKeyDefaultPolicy } from '../lib/acl/default-policy.js';
+import { invalidateRuleSet } from '../lib/acl/cache.js';
+import { grantExpiration } from '../lib/acl/policies.js';
 import type {FastifyInstance} from "fastify";
+import Nip04EncryptHandlingStrategy from './nip04-encrypt.js';
+import Nip04DecryptHandlingStrategy from './nip04-decrypt.js';
+import Nip44EncryptHandlingStrategy from './nip44-encrypt.js';
+import Nip44DecryptHandlingStrategy from './nip44-decrypt.js';
 
 /**
  * Backend Service Implementation
@@ -10,27 +17,84 @@ import type {FastifyInstance} from "fastify";
  * - Token validation and application
  * - User authentication
  * - Permission management
+ * - Stopping the backend when its key gets locked
  * - Integration with NDK (Nostr Development Kit)
  */
 
+/**
+ * Params of the permission callback, with the methods NDK doesn't know about
+ */
+export type IPermitCallbackParams = Omit<Nip46PermitCallbackParams, 'method'> & {
+    method: NIP46Method | 'nip44_encrypt' | 'nip44_decrypt';
+};
+
+export type IPermitCallback = (params: IPermitCallbackParams) => Promise<boolean>;
+
 export class Backend extends NDKNip46Backend {
     public baseUrl?: string;
     public fastify: FastifyInstance;
+    // When the last request was received, used to auto-lock idle keys
+    public lastActivityAt: Date = new Date();
+    private subscription?: NDKSubscription;
+    private permit: IPermitCallback;
 
     constructor(
         ndk: NDK,
         fastify: FastifyInstance,
         key: string,
-        cb: Nip46PermitCallback,
+        cb: IPermitCallback,
         baseUrl?: string
     ) {
         const signer = new NDKPrivateKeySigner(key);
         super(ndk, signer, cb);
 
+        this.permit = cb;
+
         this.baseUrl = baseUrl;
         this.fastify = fastify;
 
         // this.setStrategy('publish_event', new PublishEventHandlingStrategy());
+        this.setStrategy('nip04_encrypt', new Nip04EncryptHandlingStrategy());
+        this.setStrategy('nip04_decrypt', new Nip04DecryptHandlingStrategy());
+        this.setStrategy('nip44_encrypt', new Nip44EncryptHandlingStrategy());
+        this.setStrategy('nip44_decrypt', new Nip44DecryptHandlingStrategy());
+    }
+
+    /**
+     * Asks the permission callback whether a request is allowed,
+     * including requests for the methods NDK doesn't know about
+     */
+    async pubkeyAllowed(params: IPermitCallbackParams): Promise<boolean> {
+        return this.permit(params);
+    }
+
+    /**
+     * Starts listening for requests, keeping hold of the
+     * subscription so the backend can be stopped
+     */
+    async start(): Promise<void> {
+        this.localUser = await this.signer.user();
+
+        this.subscription = this.ndk.subscribe(
+            { kinds: [24133 as number], '#p': [ this.localUser.pubkey ] },
+            { closeOnEose: false }
+        );
+
+        this.subscription.on('event', (e: NDKEvent) => this.handleIncomingEvent(e));
+    }
+
+    /**
+     * Stops listening for requests
+     */
+    stop() {
+        this.subscription?.stop();
+        this.subscription = undefined;
+    }
+
+    protected async handleIncomingEvent(event: NDKEvent): Promise<void> {
+        this.lastActivityAt = new Date();
+
+        return super.handleIncomingEvent(event);
     }
 
     private async validateToken(token: string) {
@@ -38,12 +102,17 @@ export class Backend extends NDKNip46Backend {
 
         const tokenRecord = await prisma.token.findUnique({ where: {
             token
-        }, include: { policy: { include: { rules: true } } } });
+        }, include: { policy: { include: { rules: true } }, redemptions: true } });
 
         if (!tokenRecord) throw new Error("Token not found");
-        if (tokenRecord.redeemedAt) throw new Error("Token already redeemed");
-        if (!tokenRecord.policy) throw new Error("Policy not found");
+        if (tokenRecord.deletedAt) throw new Error("Token revoked");
+        if (tokenRecord.redemptions.length >= tokenRecord.maxRedemptions) throw new Error("Token already redeemed");
+        if (!tokenRecord.policy || tokenRecord.policy.deletedAt) throw new Error("Policy not found");
         if (tokenRecord.expiresAt && tokenRecord.expiresAt < new Date()) throw new Error("Token expired");
+        if (tokenRecord.policy.expiresAt && tokenRecord.policy.expiresAt < new Date()) throw new Error("Policy expired");
+
+        const defaultPolicy = await getKeyDefaultPolicy(tokenRecord.keyName);
+        if (defaultPolicy.mode === 'deny') throw new Error("Key does not accept new clients");
 
         return tokenRecord;
     }
@@ -53,8 +122,8 @@ export class Backend extends NDKNip46Backend {
      * Flow:
      * 1. Validates the provided token
      * 2. Creates or updates user record
-     * 3. Sets up basic connection permissions
-     * 4. Applies policy rules from token
+     * 3. Records the redemption, which links the policy's rules to the user
+     * 4. Sets up basic connection permissions
      * 
      * @param userPubkey - The user's public key
      * @param token - The token to apply
@@ -62,6 +131,7 @@ export class Backend extends NDKNip46Backend {
     async applyToken(userPubkey: string, token: string): Promise<void> {
         const tokenRecord = await this.validateToken(token);
         const keyName = tokenRecord.keyName;
+        const expiresAt = grantExpiration(tokenRecord.expiresAt, tokenRecord.policy!.expiresAt);
 
         // Create or update user record
         const upsertedUser = await prisma.keyUser.upsert({
@@ -70,41 +140,42 @@ export class Backend extends NDKNip46Backend {
             create: { keyName, userPubkey, description: tokenRecord.clientName },
         });
 
+        // Record the redemption; the policy's rules apply through it from now on.
+        // The redemptions are counted again in the same transaction, so concurrent
+        // connections with a multi-use token can't redeem it too many times
+        await prisma.$transaction(async (tx) => {
+            const where = { unique_token_redemption: { tokenId: tokenRecord.id, keyUserId: upsertedUser.id } };
+            if (await tx.tokenRedemption.findUnique({ where })) return;
+
+            const redemptions = await tx.tokenRedemption.count({ where: { tokenId: tokenRecord.id } });
+            if (redemptions >= tokenRecord.maxRedemptions) throw new Error("Token already redeemed");
+
+            await tx.tokenRedemption.create({
+                data: { tokenId: tokenRecord.id, keyUserId: upsertedUser.id },
+            });
+        });
+
         // Set up basic connect permission
         await prisma.signingCondition.create({
             data: {
                 keyUserId: upsertedUser.id,
                 method: 'connect',
                 allowed: true,
+                tokenId: tokenRecord.id,
+                expiresAt,
             }
         });
 
-        // Apply policy rules
-        for (const rule of tokenRecord!.policy!.rules) {
-            const signingConditionQuery: any = { method: rule.method };
-
-            if (rule && rule.kind) {
-                signingConditionQuery.kind = rule.kind.toString();
-            }
-
-            await prisma.signingCondition.create({
-                data: {
-                    keyUserId: upsertedUser.id,
-                    method: rule.method,
-                    allowed: true,
-                    ...signingConditionQuery,
-                }
-            });
-        }
-
-        // Update token status
+        // Update token status, keeping the first redemption
         await prisma.token.update({
             where: { id: tokenRecord.id },
             data: {
-                redeemedAt: new Date(),
-                keyUserId: upsertedUser.id,
+                redeemedAt: tokenRecord.redeemedAt ?? new Date(),
+                keyUserId: tokenRecord.keyUserId ?? upsertedUser.id,
             }
         });
+
+        invalidateRuleSet(keyName, userPubkey);
     }
 
 }
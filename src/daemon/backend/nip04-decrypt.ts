@@ -0,0 +1,35 @@
+import { NDKNip46Backend, NDKUser } from "@nostr-dev-kit/ndk";
+import { IEventHandlingStrategy } from '@nostr-dev-kit/ndk';
+
+/**
+ * Strategy for handling nip04_decrypt requests in a Nostr NIP-46 backend.
+ * Unlike NDK's built-in strategy, it passes the sender to the permission
+ * check so grants can be limited to specific counterparties.
+ */
+export default class Nip04DecryptHandlingStrategy implements IEventHandlingStrategy {
+    /**
+     * Decrypts a payload from a sender.
+     * @param backend - The NIP-46 backend instance handling the request
+     * @param id - The request identifier
+     * @param remotePubkey - The public key of the remote client
+     * @param params - The sender's pubkey and the payload to decrypt
+     * @returns A promise that resolves to the decrypted payload or undefined if the request is rejected
+     */
+    async handle(backend: NDKNip46Backend, id: string, remotePubkey: string, params: string[]): Promise<string|undefined> {
+        const [ senderPubkey, payload ] = params;
+
+        const allowed = await backend.pubkeyAllowed({
+            id,
+            pubkey: remotePubkey,
+            method: 'decrypt',
+            params: [ senderPubkey, payload ],
+        });
+
+        if (!allowed) {
+            backend.debug(`decrypt request from ${remotePubkey} rejected`);
+            return undefined;
+        }
+
+        return await backend.signer.decrypt(new NDKUser({ pubkey: senderPubkey }), payload);
+    }
+}
@@ -0,0 +1,35 @@
+import { NDKNip46Backend, NDKUser } from "@nostr-dev-kit/ndk";
+import { IEventHandlingStrategy } from '@nostr-dev-kit/ndk';
+
+/**
+ * Strategy for handling nip04_encrypt requests in a Nostr NIP-46 backend.
+ * Unlike NDK's built-in strategy, it passes the recipient to the permission
+ * check so grants can be limited to specific counterparties.
+ */
+export default class Nip04EncryptHandlingStrategy implements IEventHandlingStrategy {
+    /**
+     * Encrypts a payload for a recipient.
+     * @param backend - The NIP-46 backend instance handling the request
+     * @param id - The request identifier
+     * @param remotePubkey - The public key of the remote client
+     * @param params - The recipient's pubkey and the payload to encrypt
+     * @returns A promise that resolves to the encrypted payload or undefined if the request is rejected
+     */
+    async handle(backend: NDKNip46Backend, id: string, remotePubkey: string, params: string[]): Promise<string|undefined> {
+        const [ recipientPubkey, payload ] = params;
+
+        const allowed = await backend.pubkeyAllowed({
+            id,
+            pubkey: remotePubkey,
+            method: 'encrypt',
+            params: [ recipientPubkey, payload ],
+        });
+
+        if (!allowed) {
+            backend.debug(`encrypt request from ${remotePubkey} rejected`);
+            return undefined;
+        }
+
+        return await backend.signer.encrypt(new NDKUser({ pubkey: recipientPubkey }), payload);
+    }
+}
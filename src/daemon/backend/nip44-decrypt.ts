@@ -0,0 +1,39 @@
+import { NDKPrivateKeySigner } from "@nostr-dev-kit/ndk";
+import { IEventHandlingStrategy } from '@nostr-dev-kit/ndk';
+import { nip44 } from "nostr-tools";
+import type { Backend } from './index.js';
+
+/**
+ * Strategy for handling nip44_decrypt requests in a Nostr NIP-46 backend.
+ * Decrypts payloads with NIP-44 (v2), which NDK's signer doesn't support yet.
+ */
+export default class Nip44DecryptHandlingStrategy implements IEventHandlingStrategy {
+    /**
+     * Decrypts a payload from a sender.
+     * @param backend - The NIP-46 backend instance handling the request
+     * @param id - The request identifier
+     * @param remotePubkey - The public key of the remote client
+     * @param params - The sender's pubkey and the payload to decrypt
+     * @returns A promise that resolves to the decrypted payload or undefined if the request is rejected
+     */
+    async handle(backend: Backend, id: string, remotePubkey: string, params: string[]): Promise<string|undefined> {
+        const [ senderPubkey, payload ] = params;
+
+        const allowed = await backend.pubkeyAllowed({
+            id,
+            pubkey: remotePubkey,
+            method: 'nip44_decrypt',
+            params: [ senderPubkey, payload ],
+        });
+
+        if (!allowed) {
+            backend.debug(`nip44_decrypt request from ${remotePubkey} rejected`);
+            return undefined;
+        }
+
+        const { privateKey } = backend.signer as NDKPrivateKeySigner;
+        const conversationKey = nip44.utils.v2.getConversationKey(privateKey!, senderPubkey);
+
+        return nip44.decrypt(conversationKey, payload);
+    }
+}
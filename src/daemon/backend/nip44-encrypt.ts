@@ -0,0 +1,39 @@
+import { NDKPrivateKeySigner } from "@nostr-dev-kit/ndk";
+import { IEventHandlingStrategy } from '@nostr-dev-kit/ndk';
+import { nip44 } from "nostr-tools";
+import type { Backend } from './index.js';
+
+/**
+ * Strategy for handling nip44_encrypt requests in a Nostr NIP-46 backend.
+ * Encrypts payloads with NIP-44 (v2), which NDK's signer doesn't support yet.
+ */
+export default class Nip44EncryptHandlingStrategy implements IEventHandlingStrategy {
+    /**
+     * Encrypts a payload for a recipient.
+     * @param backend - The NIP-46 backend instance handling the request
+     * @param id - The request identifier
+     * @param remotePubkey - The public key of the remote client
+     * @param params - The recipient's pubkey and the payload to encrypt
+     * @returns A promise that resolves to the encrypted payload or undefined if the request is rejected
+     */
+    async handle(backend: Backend, id: string, remotePubkey: string, params: string[]): Promise<string|undefined> {
+        const [ recipientPubkey, payload ] = params;
+
+        const allowed = await backend.pubkeyAllowed({
+            id,
+            pubkey: remotePubkey,
+            method: 'nip44_encrypt',
+            params: [ recipientPubkey, payload ],
+        });
+
+        if (!allowed) {
+            backend.debug(`nip44_encrypt request from ${remotePubkey} rejected`);
+            return undefined;
+        }
+
+        const { privateKey } = backend.signer as NDKPrivateKeySigner;
+        const conversationKey = nip44.utils.v2.getConversationKey(privateKey!, recipientPubkey);
+
+        return nip44.encrypt(conversationKey, payload);
+    }
+}
@@ -0,0 +1,138 @@
+import type { KeyUser, SigningCondition } from '@prisma/client';
+import prisma from '../../../db.js';
+import { IKindGroups, loadKindGroups } from './kinds.js';
+import { loadPolicyConditions } from './policies.js';
+
+/**
+ * ACL Cache
+ *
+ * Keeps the rule set of each KeyUser in memory so deciding a request
+ * doesn't hit the database. Anything that changes ACL rows has to
+ * invalidate the affected rule sets; entries also expire after a while
+ * so edits made directly to the database are eventually picked up.
+ */
+
+/**
+ * The KeyUser of a key/client pair with its signing conditions, including
+ * the ones granted by the policies of its tokens; keyUser is null for
+ * clients the key doesn't know
+ */
+export type IRuleSet = {
+    keyUser: KeyUser | null;
+    signingConditions: SigningCondition[];
+    loadedAt: number;
+};
+
+export type IAclCacheStats = {
+    hits: number;
+    misses: number;
+    invalidations: number;
+    entries: number;
+};
+
+/**
+ * How long a cached rule set is used before it's loaded again
+ */
+const RULE_SET_TTL = 5 * 60 * 1000;
+
+const ruleSets = new Map<string, IRuleSet>();
+let kindGroups: { groups: IKindGroups, loadedAt: number } | undefined;
+const stats = { hits: 0, misses: 0, invalidations: 0 };
+
+function cacheKey(keyName: string, remotePubkey: string) {
+    return `${keyName}:${remotePubkey}`;
+}
+
+function isFresh(loadedAt: number) {
+    return Date.now() - loadedAt < RULE_SET_TTL;
+}
+
+/**
+ * Returns the rule set of a client of a key, loading it if it's not cached.
+ * Rule sets of clients the key doesn't know are never cached.
+ */
+export async function getRuleSet(keyName: string, remotePubkey: string): Promise<IRuleSet> {
+    const key = cacheKey(keyName, remotePubkey);
+    const cached = ruleSets.get(key);
+
+    if (cached && isFresh(cached.loadedAt)) {
+        stats.hits++;
+        return cached;
+    }
+
+    stats.misses++;
+
+    const keyUser = await prisma.keyUser.findUnique({
+        where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
+    });
+
+    const signingConditions = keyUser
+        ? [
+            ...await prisma.signingCondition.findMany({ where: { keyUserId: keyUser.id, expiredAt: null } }),
+            ...await loadPolicyConditions(keyUser),
+        ]
+        : [];
+
+    const ruleSet = { keyUser, signingConditions, loadedAt: Date.now() };
+
+    // Any pubkey can send requests, so unknown clients aren't cached
+    // or the cache could be grown without bound
+    if (keyUser) ruleSets.set(key, ruleSet);
+
+    return ruleSet;
+}
+
+/**
+ * Returns the admin-defined kind groups, loading them if they're not cached
+ */
+export async function getKindGroups(): Promise<IKindGroups> {
+    if (kindGroups && isFresh(kindGroups.loadedAt)) {
+        stats.hits++;
+        return kindGroups.groups;
+    }
+
+    stats.misses++;
+    kindGroups = { groups: await loadKindGroups(), loadedAt: Date.now() };
+
+    return kindGroups.groups;
+}
+
+/**
+ * Drops the cached rule set of a client of a key
+ */
+export function invalidateRuleSet(keyName: string, remotePubkey: string) {
+    if (ruleSets.delete(cacheKey(keyName, remotePubkey))) stats.invalidations++;
+}
+
+/**
+ * Drops the cached rule set of a KeyUser
+ */
+export function invalidateKeyUserRuleSet(keyUserId: number) {
+    for (const [ key, ruleSet ] of ruleSets) {
+        if (ruleSet.keyUser?.id === keyUserId) {
+            ruleSets.delete(key);
+            stats.invalidations++;
+        }
+    }
+}
+
+/**
+ * Drops the cached kind groups
+ */
+export function invalidateKindGroups() {
+    if (kindGroups) stats.invalidations++;
+    kindGroups = undefined;
+}
+
+/**
+ * Drops everything that is cached, for changes that can affect any client
+ */
+export function invalidateAclCache() {
+    stats.invalidations += ruleSets.size;
+    ruleSets.clear();
+    invalidateKindGroups();
+}
+
+export function getAclCacheStats(): IAclCacheStats {
+    return { ...stats, entries: ruleSets.size };
+}
@@ -0,0 +1,259 @@
+import type { NostrEvent } from '@nostr-dev-kit/ndk';
+import type { SigningCondition } from '@prisma/client';
+import { nip19 } from 'nostr-tools';
+import createDebug from 'debug';
+
+const debug = createDebug("nsecbunker:acl");
+
+/**
+ * Signing Condition Matching
+ *
+ * Evaluates the restrictions a SigningCondition can carry on top of its
+ * method and kind:
+ * - Content patterns
+ * - Required, forbidden and value-restricted tags
+ * - Maximum content length
+ * - Counterparties of encrypt/decrypt requests
+ */
+
+/**
+ * Tag restrictions of a signing condition, stored as JSON in SigningCondition.tags
+ */
+export type ITagConditions = {
+    // Tag names that must be present, e.g. [ "t" ]
+    required?: string[];
+    // Tag names that must not be present, e.g. [ "p" ]
+    forbidden?: string[];
+    // Allowed values per tag name, e.g. { "t": [ "x", "y" ] }
+    values?: Record<string, string[]>;
+};
+
+/**
+ * Parses the tag restrictions stored on a signing condition
+ * @returns undefined when the condition has no tag restrictions
+ */
+export function parseTagConditions(tags?: string | null): ITagConditions | undefined {
+    if (!tags) return undefined;
+
+    return JSON.parse(tags);
+}
+
+/**
+ * Validates the event-level restrictions before they get stored,
+ * so a typo in a rule fails loudly instead of never matching
+ * @throws Error if a restriction is malformed
+ */
+export function validateEventConditions(
+    contentPattern?: string,
+    tags?: ITagConditions,
+    maxContentLength?: number
+) {
+    if (contentPattern !== undefined) {
+        try {
+            new RegExp(contentPattern);
+        } catch (e: any) {
+            throw new Error(`Invalid content pattern: ${e.message}`);
+        }
+    }
+
+    if (tags) {
+        for (const list of [ tags.required, tags.forbidden ]) {
+            if (list !== undefined && !isStringArray(list)) {
+                throw new Error("Invalid tag conditions");
+            }
+        }
+
+        for (const values of Object.values(tags.values ?? {})) {
+            if (!isStringArray(values)) {
+                throw new Error("Invalid tag conditions");
+            }
+        }
+    }
+
+    if (maxContentLength !== undefined && (!Number.isInteger(maxContentLength) || maxContentLength < 0)) {
+        throw new Error("Invalid max content length");
+    }
+}
+
+function isStringArray(value: any): value is string[] {
+    return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Checks whether an event satisfies the content and tag restrictions of a condition.
+ * Conditions without restrictions match every event.
+ * @param condition - The signing condition to evaluate
+ * @param event - The event that is being requested to be signed
+ */
+export function eventMatchesConditions(
+    condition: Pick<SigningCondition, 'contentPattern' | 'tags' | 'maxContentLength'>,
+    event?: NostrEvent
+): boolean {
+    const { contentPattern, maxContentLength } = condition;
+    const hasRestrictions = !!contentPattern || !!condition.tags || typeof maxContentLength === 'number';
+
+    if (!hasRestrictions) return true;
+    if (!event) return false;
+
+    const content = event.content ?? '';
+    const eventTags = event.tags ?? [];
+
+    if (typeof maxContentLength === 'number' && content.length > maxContentLength) {
+        return false;
+    }
+
+    if (contentPattern) {
+        let pattern: RegExp;
+
+        try {
+            pattern = new RegExp(contentPattern);
+        } catch (e) {
+            debug(`invalid content pattern`, contentPattern);
+            return false;
+        }
+
+        if (!pattern.test(content)) return false;
+    }
+
+    let tags: ITagConditions | undefined;
+
+    try {
+        tags = parseTagConditions(condition.tags);
+    } catch (e) {
+        debug(`invalid tag conditions`, condition.tags);
+        return false;
+    }
+
+    if (tags) {
+        const tagNames = eventTags.map((t) => t[0]);
+
+        for (const name of tags.required ?? []) {
+            if (!tagNames.includes(name)) return false;
+        }
+
+        for (const name of tags.forbidden ?? []) {
+            if (tagNames.includes(name)) return false;
+        }
+
+        for (const [ name, allowedValues ] of Object.entries(tags.values ?? {})) {
+            const values = eventTags.filter((t) => t[0] === name).map((t) => t[1]);
+
+            if (values.some((v) => !allowedValues.includes(v))) return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Counterparty restrictions of an encrypt/decrypt (NIP-04 or NIP-44) condition,
+ * stored as JSON in SigningCondition.counterparties
+ */
+export type ICounterpartyConditions = {
+    // Pubkeys the client may encrypt to or decrypt from
+    allow?: string[];
+    // Pubkeys the client may never encrypt to or decrypt from
+    deny?: string[];
+    // Allow the pubkeys in the key's contact list
+    contactsOnly?: boolean;
+};
+
+/**
+ * Validates counterparty restrictions and converts npubs to hex pubkeys
+ * @throws Error if a restriction is malformed
+ * @returns The restrictions as they should be stored
+ */
+export function normalizeCounterpartyConditions(counterparties: ICounterpartyConditions): ICounterpartyConditions {
+    const normalized: ICounterpartyConditions = {};
+
+    for (const list of [ 'allow', 'deny' ] as const) {
+        const pubkeys = counterparties[list];
+        if (pubkeys === undefined) continue;
+        if (!isStringArray(pubkeys)) throw new Error("Invalid counterparty conditions");
+
+        normalized[list] = pubkeys.map((pubkey) => {
+            if (pubkey.startsWith('npub')) return nip19.decode(pubkey).data as string;
+            if (!/^[0-9a-f]{64}$/.test(pubkey)) throw new Error(`Invalid pubkey ${pubkey}`);
+            return pubkey;
+        });
+    }
+
+    if (counterparties.contactsOnly) normalized.contactsOnly = true;
+
+    return normalized;
+}
+
+/**
+ * Parses the counterparty restrictions stored on a signing condition
+ * @returns undefined when the condition has no counterparty restrictions
+ */
+export function parseCounterpartyConditions(counterparties?: string | null): ICounterpartyConditions | undefined {
+    if (!counterparties) return undefined;
+
+    return JSON.parse(counterparties);
+}
+
+/**
+ * Whether evaluating a condition needs the key's contact list
+ */
+export function requiresContactList(condition: Pick<SigningCondition, 'counterparties'>): boolean {
+    try {
+        return !!parseCounterpartyConditions(condition.counterparties)?.contactsOnly;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Whether the counterparty of an encrypt/decrypt request is on the deny list
+ * of a condition. Such requests are denied whether the condition allows or denies.
+ * @param condition - The signing condition to evaluate
+ * @param counterparty - Pubkey the client wants to encrypt to or decrypt from
+ */
+export function counterpartyDeniedByConditions(
+    condition: Pick<SigningCondition, 'counterparties'>,
+    counterparty?: string
+): boolean {
+    if (!condition.counterparties || !counterparty) return false;
+
+    try {
+        return !!parseCounterpartyConditions(condition.counterparties)!.deny?.includes(counterparty);
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Checks whether the counterparty of an encrypt/decrypt request satisfies
+ * the restrictions of a condition. Conditions without restrictions match every counterparty.
+ * Counterparties on the deny list never match, see counterpartyDeniedByConditions.
+ * @param condition - The signing condition to evaluate
+ * @param counterparty - Pubkey the client wants to encrypt to or decrypt from
+ * @param contacts - Pubkeys in the key's contact list, when the condition needs them
+ */
+export function counterpartyMatchesConditions(
+    condition: Pick<SigningCondition, 'counterparties'>,
+    counterparty?: string,
+    contacts?: Set<string>
+): boolean {
+    if (!condition.counterparties) return true;
+    if (!counterparty) return false;
+
+    let counterparties: ICounterpartyConditions;
+
+    try {
+        counterparties = parseCounterpartyConditions(condition.counterparties)!;
+    } catch (e) {
+        debug(`invalid counterparty conditions`, condition.counterparties);
+        return false;
+    }
+
+    if (counterparties.deny?.includes(counterparty)) return false;
+
+    const restricted = !!counterparties.allow || !!counterparties.contactsOnly;
+    if (!restricted) return true;
+
+    if (counterparties.allow?.includes(counterparty)) return true;
+
+    return !!counterparties.contactsOnly && !!contacts?.has(counterparty);
+}
@@ -0,0 +1,96 @@
+import type { NostrEvent } from '@nostr-dev-kit/ndk';
+import prisma from '../../../db.js';
+import { kindMatches, validateKindExpression } from './kinds.js';
+import { getKindGroups } from './cache.js';
+import { IMethod, normalizeMethod, validateMethod } from './index.js';
+
+/**
+ * Key Default Policies
+ *
+ * Decides the requests of clients a key doesn't know yet (no KeyUser).
+ * Each key can have one default policy:
+ * - A mode for requests no default rule allows
+ * - Default rules that are allowed for anyone, e.g. connect and kind 7
+ */
+
+/**
+ * What to do with the requests of unknown clients that no default rule allows:
+ * - prompt: ask an admin (the behaviour of keys without a default policy)
+ * - deny: reject them; tokens can't be redeemed either
+ * - require_token: reject them; clients have to connect with a token first
+ */
+export type IDefaultPolicyMode = 'prompt' | 'deny' | 'require_token';
+
+export const DEFAULT_POLICY_MODES: IDefaultPolicyMode[] = [ 'prompt', 'deny', 'require_token' ];
+
+export type IDefaultPolicyRule = {
+    method: string;
+    // A kind expression (see ./kinds.ts), only used for sign_event
+    kind?: number | string;
+};
+
+export type IKeyDefaultPolicy = {
+    mode: IDefaultPolicyMode;
+    rules: IDefaultPolicyRule[];
+};
+
+/**
+ * Loads the default policy of a key
+ * @returns the "prompt" policy when the key has none
+ */
+export async function getKeyDefaultPolicy(keyName: string): Promise<IKeyDefaultPolicy> {
+    const record = await prisma.keyDefaultPolicy.findUnique({ where: { keyName } });
+
+    if (!record) return { mode: 'prompt', rules: [] };
+
+    return {
+        mode: record.mode as IDefaultPolicyMode,
+        rules: record.rules ? JSON.parse(record.rules) : [],
+    };
+}
+
+/**
+ * Validates the default rules of a key before they get stored
+ * @throws Error if a rule is malformed
+ * @returns The rules with their methods and kinds normalized
+ */
+export async function validateDefaultPolicyRules(rules: IDefaultPolicyRule[]): Promise<IDefaultPolicyRule[]> {
+    if (!Array.isArray(rules)) throw new Error("Invalid rules");
+
+    return Promise.all(rules.map(async (rule) => {
+        const method = validateMethod(rule?.method);
+
+        if (rule.kind === undefined || rule.kind === null) return { method };
+
+        const kind = rule.kind.toString();
+        await validateKindExpression(kind);
+
+        return { method, kind };
+    }));
+}
+
+/**
+ * Decides a request of a client the key doesn't know
+ * @returns true if a default rule allows it, false if the mode rejects it,
+ *          undefined if an admin needs to decide
+ */
+export async function defaultPolicyDecision(
+    policy: IKeyDefaultPolicy,
+    method: IMethod,
+    payload?: any
+): Promise<boolean | undefined> {
+    const event = method === 'sign_event' ? payload as NostrEvent : undefined;
+    const kindGroups = event ? await getKindGroups() : {};
+
+    const allowed = policy.rules.some((rule) => {
+        if (normalizeMethod(rule.method) !== method) return false;
+        if (!event) return true;
+
+        return kindMatches(rule.kind?.toString() ?? null, event.kind, kindGroups);
+    });
+
+    if (allowed) return true;
+    if (policy.mode === 'prompt') return undefined;
+
+    return false;
+}
@@ -1,106 +1,313 @@
 import { NDKEvent, NostrEvent } from '@nostr-dev-kit/ndk';
+import type { KeyUser, SigningCondition } from '@prisma/client';
 import prisma from '../../../db.js';
+import {
+    ICounterpartyConditions,
+    ITagConditions,
+    counterpartyDeniedByConditions,
+    counterpartyMatchesConditions,
+    eventMatchesConditions,
+    normalizeCounterpartyConditions,
+    requiresContactList,
+    validateEventConditions,
+} from './conditions.js';
+import { getContactList } from '../contacts.js';
+import { defaultPolicyDecision, getKeyDefaultPolicy } from './default-policy.js';
+import { compareSigningConditions } from './precedence.js';
+import { kindMatches, validateKindExpression } from './kinds.js';
+import { getKindGroups, getRuleSet, invalidateRuleSet } from './cache.js';
+import { isPolicyCondition, recordPolicyRuleUsage } from './policies.js';
 
 /**
  * Access Control List Implementation
  * 
  * This module handles permission management and request validation.
  * Features:
- * - Method-specific permissions
- * - Event kind filtering
- * - Token-based access control
+ * - Method-specific permissions, including NIP-04 and NIP-44 encryption
+ * - Event kind filtering, including kind ranges, categories and groups
+ * - Event content and tag restrictions
+ * - Counterparties of encrypt/decrypt requests
+ * - Token-based access control, with live-linked policies
+ * - Usage budgets of policy rules
+ * - Expiration of grants
+ * - Deterministic precedence between overlapping rules
+ * - Per-key default policies for unknown clients
+ * - In-memory cache of the rule sets of each client (see ./cache.ts)
  * - User permission management
  */
 
+export type ISigningDecision = {
+    // true if allowed, false if denied, undefined if an admin needs to decide
+    allowed: boolean | undefined;
+    // Human-readable explanation of how the decision was reached
+    reason: string;
+    // The signing condition the decision was based on
+    signingCondition?: SigningCondition;
+    // Every condition that applies to the request, in order of precedence
+    matchingConditions: SigningCondition[];
+    keyUser?: KeyUser;
+};
+
 export async function checkIfPubkeyAllowed(
     keyName: string,
     remotePubkey: string,
     method: IMethod,
-    payload?: string | NostrEvent
+    payload?: IRequestPayload
 ): Promise<boolean | undefined> {
-    // find KeyUser
-    const keyUser = await prisma.keyUser.findUnique({
-        where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
-    });
+    const decision = await getSigningDecision(keyName, remotePubkey, method, payload);
 
+    return decision.allowed;
+}
+
+/**
+ * Finds the signing conditions that apply to a request and decides it
+ * based on the one that takes precedence (see ./precedence.ts)
+ */
+export async function getSigningDecision(
+    keyName: string,
+    remotePubkey: string,
+    method: IMethod,
+    payload?: IRequestPayload
+): Promise<ISigningDecision> {
+    method = normalizeMethod(method) as IMethod;
+
+    // find KeyUser and its SigningConditions
+    const ruleSet = await getRuleSet(keyName, remotePubkey);
+    const keyUser = ruleSet.keyUser;
+
+    // Clients the key doesn't know are decided by the key's default policy
     if (!keyUser) {
-        return undefined;
+        const defaultPolicy = await getKeyDefaultPolicy(keyName);
+        const allowed = await defaultPolicyDecision(defaultPolicy, method, payload);
+        const reason = allowed === undefined
+            ? 'unknown client'
+            : `unknown client, ${allowed ? 'allowed' : 'denied'} by default policy (${defaultPolicy.mode})`;
+
+        return { allowed, reason, matchingConditions: [] };
     }
 
-    // find SigningCondition
-    const signingConditionQuery = requestToSigningConditionQuery(method, payload);
+    // Revoked clients are denied before looking at any condition
+    if (keyUser.revokedAt) {
+        return { allowed: false, reason: 'client revoked', matchingConditions: [], keyUser };
+    }
 
-    const explicitReject = await prisma.signingCondition.findFirst({
-        where: {
-            keyUserId: keyUser.id,
-            method: '*',
-            allowed: false,
-        }
-    });
+    // find the SigningConditions of the request, including client-wide rejections
+    const now = new Date();
+    const signingConditions = ruleSet.signingConditions
+        .filter((c) => (c.method === '*' && c.allowed === false) || signingConditionMatchesRequest(c, method))
+        .filter((c) => isSigningConditionActive(c, now));
 
-    if (explicitReject) {
-        console.log(`explicit reject`, explicitReject);
-        return false;
+    // Evaluate kind expressions, content and tag restrictions and counterparties;
+    // conditions that used up their usage budget no longer apply
+    const event = method === 'sign_event' ? payload as NostrEvent : undefined;
+    const kindGroups = event ? await getKindGroups() : {};
+    const counterparty = isEncryptionMethod(method) && Array.isArray(payload)
+        ? payload[0]
+        : undefined;
+    const contacts = signingConditions.some(requiresContactList)
+        ? await getContactList(keyName)
+        : undefined;
+    const decidingConditions = signingConditions
+        .filter((c) => c.allowed === true || c.allowed === false);
+
+    // A counterparty on the deny list of any rule is denied, even by a rule that allows
+    const counterpartyDenial = decidingConditions
+        .find((c) => c.method !== '*' && counterpartyDeniedByConditions(c, counterparty));
+
+    if (counterpartyDenial) {
+        return {
+            allowed: false,
+            reason: 'counterparty denied by rule',
+            signingCondition: counterpartyDenial,
+            matchingConditions: [ counterpartyDenial ],
+            keyUser,
+        };
     }
 
-    const signingCondition = await prisma.signingCondition.findFirst({
-        where: {
-            keyUserId: keyUser.id,
-            ...signingConditionQuery,
-        }
-    });
+    const matchingConditions = decidingConditions
+        .filter((c) => !event || c.method === '*' || kindMatches(c.kind, event.kind, kindGroups))
+        .filter((c) => hasUsageLeft(c) && eventMatchesConditions(c, event))
+        .filter((c) => c.method === '*' || counterpartyMatchesConditions(c, counterparty, contacts))
+        .sort(compareSigningConditions);
+
+    const signingCondition = matchingConditions[0];
 
     // if no SigningCondition found, return undefined
     if (!signingCondition) {
-        return undefined;
+        return { allowed: undefined, reason: 'no matching rule', matchingConditions, keyUser };
     }
 
-    const allowed = signingCondition.allowed;
+    console.log(`found signing condition`, signingCondition);
 
-    // Check if the key user has been revoked
-    if (allowed) {
-        const revoked = await prisma.keyUser.findFirst({
-            where: {
-                id: keyUser.id,
-                revokedAt: { not: null },
-            }
-        });
+    return {
+        allowed: signingCondition.allowed!,
+        reason: signingCondition.allowed ? 'allowed by rule' : 'denied by rule',
+        signingCondition,
+        matchingConditions,
+        keyUser,
+    };
+}
 
-        if (revoked) {
-            return false;
+/**
+ * Whether a signing condition is still in effect: conditions that expired
+ * are ignored whether or not the expiration sweep has marked them yet
+ */
+function isSigningConditionActive(signingCondition: SigningCondition, now: Date): boolean {
+    if (signingCondition.expiredAt) return false;
+
+    return !signingCondition.expiresAt || signingCondition.expiresAt > now;
+}
+
+/**
+ * Marks the signing conditions whose expiration date has passed as expired
+ * @returns the number of conditions that expired
+ */
+export async function expireSigningConditions(): Promise<number> {
+    const now = new Date();
+    const { count } = await prisma.signingCondition.updateMany({
+        where: {
+            expiredAt: null,
+            expiresAt: { lte: now },
+        },
+        data: { expiredAt: now },
+    });
+
+    return count;
+}
+
+/**
+ * Whether a signing condition with a usage budget can still be used
+ */
+function hasUsageLeft(signingCondition: SigningCondition): boolean {
+    const { maxUsageCount, currentUsageCount } = signingCondition;
+
+    if (maxUsageCount === null || maxUsageCount === undefined) return true;
+
+    return (currentUsageCount ?? 0) < maxUsageCount;
+}
+
+/**
+ * Counts a use of a signing condition that allows a request against its own
+ * budget and the policy rule it was derived from. The budget is checked and
+ * counted in a single query, so concurrent requests can't go over it.
+ * @param signingCondition - The condition that allowed the request
+ * @returns false if the condition had no usage left, the request has to be denied then
+ */
+export async function recordSigningConditionUsage(signingCondition: SigningCondition): Promise<boolean> {
+    const { maxUsageCount } = signingCondition;
+    let counted: boolean;
+
+    if (isPolicyCondition(signingCondition)) {
+        const { tokenId, keyUserId, policyRuleId } = signingCondition;
+        counted = await recordPolicyRuleUsage(tokenId!, keyUserId!, policyRuleId!, maxUsageCount);
+
+        if (counted) {
+            await prisma.policyRule.update({
+                where: { id: policyRuleId! },
+                data: { currentUsageCount: { increment: 1 } },
+            });
         }
-    }
+    } else if (maxUsageCount !== null) {
+        // Conditions created without a counter start counting from 0
+        await prisma.signingCondition.updateMany({
+            where: { id: signingCondition.id, currentUsageCount: null },
+            data: { currentUsageCount: 0 },
+        });
 
-    if (allowed === true || allowed === false) {
-        console.log(`found signing condition`, signingCondition);
-        return allowed;
+        const { count } = await prisma.signingCondition.updateMany({
+            where: { id: signingCondition.id, currentUsageCount: { lt: maxUsageCount } },
+            data: { currentUsageCount: { increment: 1 } },
+        });
+
+        counted = count > 0;
+    } else {
+        return true;
     }
 
-    return undefined;
+    // Keep the cached copy of the condition in sync with its budget
+    signingCondition.currentUsageCount = counted
+        ? (signingCondition.currentUsageCount ?? 0) + 1
+        : maxUsageCount;
+
+    return counted;
+}
+
+export type IMethod =
+    "connect" | "sign_event" | "encrypt" | "decrypt" | "nip44_encrypt" | "nip44_decrypt" | "ping";
+
+export const METHODS: IMethod[] = [
+    'connect', 'sign_event', 'encrypt', 'decrypt', 'nip44_encrypt', 'nip44_decrypt', 'ping'
+];
+
+/**
+ * NIP-46 method names that are granted and checked as another method
+ */
+const METHOD_ALIASES: Record<string, IMethod> = {
+    nip04_encrypt: 'encrypt',
+    nip04_decrypt: 'decrypt',
+};
+
+/**
+ * Resolves method aliases, e.g. nip04_encrypt to encrypt
+ */
+export function normalizeMethod(method: string): string {
+    return METHOD_ALIASES[method] ?? method;
 }
 
-export type IMethod = "connect" | "sign_event" | "encrypt" | "decrypt" | "ping";
+/**
+ * Validates the method of a rule before it gets stored
+ * @throws Error if the method is unknown
+ * @returns The method with its alias resolved
+ */
+export function validateMethod(method: string): IMethod {
+    const normalized = normalizeMethod(method) as IMethod;
+
+    if (!METHODS.includes(normalized)) throw new Error(`Unknown method ${method}`);
+
+    return normalized;
+}
+
+/**
+ * Whether a method encrypts or decrypts a payload for a counterparty
+ */
+export function isEncryptionMethod(method: string): boolean {
+    return [ 'encrypt', 'decrypt', 'nip44_encrypt', 'nip44_decrypt' ].includes(normalizeMethod(method));
+}
+
+/**
+ * Payload of a request: the event of a sign_event request,
+ * [ counterparty, payload ] for encrypt/decrypt requests
+ */
+export type IRequestPayload = string | string[] | NostrEvent;
 
 export type IAllowScope = {
-    kind?: number | 'all';
+    // A kind, "all" or a kind expression such as "30000-39999" (see ./kinds.ts)
+    kind?: number | string;
+    // Regular expression the event content must match
+    contentPattern?: string;
+    tags?: ITagConditions;
+    maxContentLength?: number;
+    // Pubkeys an encrypt/decrypt grant is limited to
+    counterparties?: ICounterpartyConditions;
 };
 
 /**
- * Converts a request into a signing condition query
+ * Checks whether a signing condition is about the requested method
  * Handles special cases for different methods, especially sign_event
+ * @param signingCondition - The signing condition to check
  * @param method - The requested method
- * @param payload - Optional payload or NostrEvent
  */
-export function requestToSigningConditionQuery(method: IMethod, payload?: string | NostrEvent) {
-    const signingConditionQuery: any = { method };
+export function signingConditionMatchesRequest(signingCondition: SigningCondition, method: IMethod): boolean {
+    if (signingCondition.method !== method) return false;
 
     switch (method) {
         case 'sign_event':
-            signingConditionQuery.kind = { in: [ payload?.kind?.toString(), 'all' ] };
-            break;
+            // Only conditions with a kind can match an event; whether the kind
+            // expression matches the event is evaluated separately
+            return signingCondition.kind !== null;
     }
 
-    return signingConditionQuery;
+    return true;
 }
 
 /**
@@ -109,11 +316,76 @@ export function requestToSigningConditionQuery(method: IMethod, payload?: string
  * @param method - The method to allow
  * @param scope - Optional scope restrictions
  */
-export function allowScopeToSigningConditionQuery(method: string, scope?: IAllowScope) {
-    const signingConditionQuery: any = { method };
+export async function allowScopeToSigningConditionQuery(method: string, scope?: IAllowScope) {
+    const signingConditionQuery: any = { method: normalizeMethod(method) };
 
     if (scope && scope.kind) {
         signingConditionQuery.kind = scope.kind.toString();
+        await validateKindExpression(signingConditionQuery.kind);
+    }
+
+    if (scope) {
+        validateEventConditions(scope.contentPattern, scope.tags, scope.maxContentLength);
+
+        if (scope.contentPattern) signingConditionQuery.contentPattern = scope.contentPattern;
+        if (scope.tags) signingConditionQuery.tags = JSON.stringify(scope.tags);
+        if (scope.maxContentLength !== undefined) signingConditionQuery.maxContentLength = scope.maxContentLength;
+
+        if (scope.counterparties) {
+            const counterparties = normalizeCounterpartyConditions(scope.counterparties);
+            signingConditionQuery.counterparties = JSON.stringify(counterparties);
+        }
+    }
+
+    return signingConditionQuery;
+}
+
+/**
+ * A signing condition as admins send it, e.g.
+ * { "method": "sign_event", "kind": 4, "allowed": false }
+ */
+export type ISigningConditionInput = IAllowScope & {
+    // A method, or '*' to deny every request of the client
+    method: string;
+    // Defaults to true
+    allowed?: boolean;
+    maxUsageCount?: number;
+    expiresAt?: string;
+};
+
+/**
+ * Validates a signing condition sent by an admin and converts it into
+ * the columns of a SigningCondition
+ * @throws Error if the condition is malformed
+ */
+export async function signingConditionInputToQuery(input: ISigningConditionInput) {
+    if (!input || typeof input !== 'object') throw new Error("Invalid signing condition");
+
+    const allowed = input.allowed ?? true;
+    if (typeof allowed !== 'boolean') throw new Error("Invalid signing condition");
+
+    if (input.method === '*') {
+        if (allowed) throw new Error("Only deny conditions can apply to every method");
+        return { method: '*', allowed };
+    }
+
+    const method = validateMethod(input.method);
+
+    // sign_event conditions need a kind to ever match
+    const scope = method === 'sign_event' ? { ...input, kind: input.kind ?? 'all' } : input;
+    const signingConditionQuery = await allowScopeToSigningConditionQuery(method, scope);
+    signingConditionQuery.allowed = allowed;
+
+    if (input.maxUsageCount !== undefined) {
+        if (!Number.isInteger(input.maxUsageCount) || input.maxUsageCount < 0) throw new Error("Invalid max usage count");
+        signingConditionQuery.maxUsageCount = input.maxUsageCount;
+        signingConditionQuery.currentUsageCount = 0;
+    }
+
+    if (input.expiresAt !== undefined) {
+        const expiresAt = new Date(input.expiresAt);
+        if (isNaN(expiresAt.getTime())) throw new Error("Invalid expiration");
+        signingConditionQuery.expiresAt = expiresAt;
     }
 
     return signingConditionQuery;
@@ -146,33 +418,59 @@ export async function allowAllRequestsFromKey(
         });
 
         // Create signing condition
-        const signingConditionQuery = allowScopeToSigningConditionQuery(method, allowScope);
+        const signingConditionQuery = await allowScopeToSigningConditionQuery(method, allowScope);
         await prisma.signingCondition.create({
             data: {
                 allowed: true,
                 keyUserId: upsertedUser.id,
                 ...signingConditionQuery,
-                ...allowScope
             },
         });
+
+        invalidateRuleSet(keyName, remotePubkey);
     } catch (e) {
         console.log('allowAllRequestsFromKey', e);
     }
 }
 
-export async function rejectAllRequestsFromKey(remotePubkey: string, keyName: string): Promise<void> {
+/**
+ * Denies requests from a key, persisting a rule so later requests
+ * are rejected without asking an admin again
+ * @param remotePubkey - The public key to deny
+ * @param keyName - The key name to deny requests for
+ * @param method - The method to deny, '*' denies every request from the client
+ * @param description - Optional user description
+ * @param denyScope - Optional scope of the denial, e.g. a specific kind
+ */
+export async function rejectAllRequestsFromKey(
+    remotePubkey: string,
+    keyName: string,
+    method: string = '*',
+    description?: string,
+    denyScope?: IAllowScope,
+): Promise<void> {
     // Upsert the KeyUser with the given remotePubkey
     const upsertedUser = await prisma.keyUser.upsert({
         where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
         update: { },
-        create: { keyName, userPubkey: remotePubkey },
+        create: { keyName, userPubkey: remotePubkey, description },
     });
 
+    // sign_event rules need a kind to ever match, so deny every kind unless one was given
+    method = normalizeMethod(method);
+    const scope = method === 'sign_event' ? { kind: 'all' as const, ...denyScope } : denyScope;
+    const signingConditionQuery = method === '*'
+        ? { method }
+        : await allowScopeToSigningConditionQuery(method, scope);
+
     // Create a new SigningCondition for the given KeyUser and set allowed to false
     await prisma.signingCondition.create({
         data: {
             allowed: false,
             keyUserId: upsertedUser.id,
+            ...signingConditionQuery,
         },
     });
-}
\ No newline at end of file
+
+    invalidateRuleSet(keyName, remotePubkey);
+}
@@ -0,0 +1,131 @@
+import prisma from '../../../db.js';
+
+/**
+ * Kind Expressions
+ *
+ * The kind of a signing condition or policy rule can be:
+ * - "all", or empty, to match every kind
+ * - A single kind, e.g. "1"
+ * - An inclusive range, e.g. "30000-39999"
+ * - A NIP-01 category: "regular", "replaceable", "ephemeral" or "parameterized"
+ * - The name of an admin-defined kind group, e.g. "social"
+ */
+
+export type IKindGroups = Record<string, number[]>;
+
+const KIND_CATEGORIES: Record<string, (kind: number) => boolean> = {
+    regular: (k) => (k >= 1000 && k < 10000) || (k >= 4 && k < 45) || k === 1 || k === 2,
+    replaceable: (k) => (k >= 10000 && k < 20000) || k === 0 || k === 3,
+    ephemeral: (k) => k >= 20000 && k < 30000,
+    parameterized: (k) => k >= 30000 && k < 40000,
+};
+
+const RESERVED_KIND_NAMES = [ 'all', ...Object.keys(KIND_CATEGORIES) ];
+
+const KIND_PATTERN = /^\d+$/;
+const RANGE_PATTERN = /^(\d+)-(\d+)$/;
+const GROUP_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/i;
+
+/**
+ * Validates a kind expression before it gets stored, so a typo in a group name
+ * fails loudly instead of never matching
+ * @throws Error if the expression can't be parsed or names a group that doesn't exist
+ */
+export async function validateKindExpression(kind: string) {
+    if (kind === 'all' || KIND_PATTERN.test(kind) || KIND_CATEGORIES[kind]) return;
+
+    const range = kind.match(RANGE_PATTERN);
+    if (range) {
+        if (parseInt(range[1]) > parseInt(range[2])) throw new Error(`Invalid kind range ${kind}`);
+        return;
+    }
+
+    if (!GROUP_NAME_PATTERN.test(kind)) throw new Error(`Invalid kind ${kind}`);
+
+    const group = await prisma.kindGroup.findUnique({ where: { name: kind } });
+    if (!group) throw new Error(`Unknown kind group ${kind}`);
+}
+
+/**
+ * Validates the name of a kind group
+ * @throws Error if the name is invalid or reserved
+ */
+export function validateKindGroupName(name: string) {
+    if (!GROUP_NAME_PATTERN.test(name)) throw new Error("Invalid group name");
+    if (RESERVED_KIND_NAMES.includes(name)) throw new Error(`${name} is a reserved name`);
+}
+
+/**
+ * Finds the rules that refer to a kind group, so the group isn't deleted
+ * from under them
+ * @returns a description of each rule, e.g. "signing condition 3"
+ */
+export async function findKindGroupReferences(name: string): Promise<string[]> {
+    const signingConditions = await prisma.signingCondition.findMany({
+        where: { kind: name, expiredAt: null },
+    });
+    const policyRules = await prisma.policyRule.findMany({
+        where: { kind: name },
+        include: { Policy: true },
+    });
+    const rateLimits = await prisma.rateLimit.findMany({ where: { kind: name } });
+    const defaultPolicies = await prisma.keyDefaultPolicy.findMany();
+
+    return [
+        ...signingConditions.map((c) => `signing condition ${c.id}`),
+        ...policyRules
+            .filter((r) => !r.Policy?.deletedAt)
+            .map((r) => `policy rule ${r.id}`),
+        ...rateLimits.map((l) => `rate limit ${l.id}`),
+        ...defaultPolicies
+            .filter((p) => p.rules && JSON.parse(p.rules).some((r: { kind?: number | string }) => r.kind?.toString() === name))
+            .map((p) => `default policy of key ${p.keyName}`),
+    ];
+}
+
+/**
+ * Checks whether an event kind is matched by a kind expression
+ * @param expression - The kind of the condition
+ * @param kind - The kind of the event
+ * @param groups - The admin-defined kind groups
+ */
+export function kindMatches(expression: string | null, kind: number | undefined, groups: IKindGroups): boolean {
+    if (!expression || expression === 'all') return true;
+    if (kind === undefined || kind === null) return false;
+
+    if (KIND_PATTERN.test(expression)) return parseInt(expression) === kind;
+
+    const range = expression.match(RANGE_PATTERN);
+    if (range) return kind >= parseInt(range[1]) && kind <= parseInt(range[2]);
+
+    const category = KIND_CATEGORIES[expression];
+    if (category) return category(kind);
+
+    return !!groups[expression]?.includes(kind);
+}
+
+/**
+ * How specifically a kind expression targets the kind of an event;
+ * higher values take precedence
+ */
+export function kindSpecificity(expression: string | null): number {
+    if (!expression || expression === 'all') return 0;
+    if (KIND_PATTERN.test(expression)) return 3;
+    if (KIND_CATEGORIES[expression]) return 1;
+
+    // ranges and groups
+    return 2;
+}
+
+/**
+ * Loads the admin-defined kind groups
+ */
+export async function loadKindGroups(): Promise<IKindGroups> {
+    const groups: IKindGroups = {};
+
+    for (const group of await prisma.kindGroup.findMany()) {
+        groups[group.name] = JSON.parse(group.kinds);
+    }
+
+    return groups;
+}
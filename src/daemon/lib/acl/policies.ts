@@ -0,0 +1,162 @@
+import type { KeyUser, Policy, PolicyRule, PolicyRuleUsage, SigningCondition, Token, TokenRedemption } from '@prisma/client';
+import prisma from '../../../db.js';
+import { normalizeMethod, validateMethod } from './index.js';
+import { validateKindExpression } from './kinds.js';
+
+/**
+ * Live Policies
+ *
+ * A client that redeemed a token is granted the current rules of the
+ * token's policy. Rules aren't copied when the token is redeemed, so
+ * editing or tightening a policy applies to every client holding it.
+ *
+ * Each rule is evaluated as a signing condition derived from the rule and
+ * the token; its usage budget is counted per redemption in PolicyRuleUsage,
+ * so every client redeeming a multi-use token gets its own budget.
+ */
+
+/**
+ * A policy rule as admins send it, e.g. { "method": "sign_event", "kind": 1, "use_count": 100 }
+ */
+export type IPolicyRuleInput = {
+    method: string;
+    kind?: number | string | null;
+    use_count?: number | null;
+};
+
+type IRedemptionWithPolicy = TokenRedemption & {
+    Token: Token & {
+        policy: (Policy & { rules: PolicyRule[] }) | null;
+        ruleUsages: PolicyRuleUsage[];
+    };
+};
+
+/**
+ * The conditions granted by a token expire with whichever comes first,
+ * the token or the policy it was issued for
+ */
+export function grantExpiration(tokenExpiresAt: Date | null, policyExpiresAt: Date | null): Date | null {
+    if (!tokenExpiresAt) return policyExpiresAt;
+    if (!policyExpiresAt) return tokenExpiresAt;
+
+    return tokenExpiresAt < policyExpiresAt ? tokenExpiresAt : policyExpiresAt;
+}
+
+/**
+ * Validates a policy rule before it gets stored
+ * @throws Error if the rule is malformed
+ * @returns The columns of the rule
+ */
+export async function validatePolicyRule(rule: IPolicyRuleInput) {
+    if (!rule || typeof rule !== 'object') throw new Error("Invalid rule");
+
+    const method = validateMethod(rule.method);
+    const kind = rule.kind !== undefined && rule.kind !== null ? rule.kind.toString() : null;
+    if (kind !== null) await validateKindExpression(kind);
+
+    const maxUsageCount = rule.use_count ?? null;
+    if (maxUsageCount !== null && (!Number.isInteger(maxUsageCount) || maxUsageCount < 0)) {
+        throw new Error("Invalid use count");
+    }
+
+    return { method, kind, maxUsageCount };
+}
+
+/**
+ * Whether a signing condition was derived from a policy rule rather than stored
+ */
+export function isPolicyCondition(signingCondition: SigningCondition): boolean {
+    return signingCondition.policyRuleId !== null && signingCondition.tokenId !== null;
+}
+
+/**
+ * Derives the signing condition a policy rule grants to the holder of a token.
+ * Derived conditions aren't rows, so their id is 0; policyRuleId and tokenId identify them.
+ */
+function policyRuleToSigningCondition(rule: PolicyRule, redemption: IRedemptionWithPolicy): SigningCondition {
+    const token = redemption.Token;
+    const usage = token.ruleUsages.find((u) => u.policyRuleId === rule.id);
+
+    return {
+        id: 0,
+        method: normalizeMethod(rule.method),
+        kind: rule.kind,
+        content: null,
+        contentPattern: null,
+        tags: null,
+        maxContentLength: null,
+        counterparties: null,
+        keyUserKeyName: null,
+        allowed: true,
+        maxUsageCount: rule.maxUsageCount,
+        currentUsageCount: usage?.count ?? 0,
+        expiresAt: grantExpiration(token.expiresAt, token.policy!.expiresAt),
+        expiredAt: null,
+        createdAt: redemption.redeemedAt,
+        keyUserId: redemption.keyUserId,
+        policyRuleId: rule.id,
+        tokenId: token.id,
+    };
+}
+
+/**
+ * Loads the signing conditions granted to a KeyUser by the policies of the tokens it redeemed
+ */
+export async function loadPolicyConditions(keyUser: KeyUser): Promise<SigningCondition[]> {
+    const redemptions = await prisma.tokenRedemption.findMany({
+        where: {
+            keyUserId: keyUser.id,
+            Token: { deletedAt: null },
+        },
+        include: {
+            Token: {
+                include: {
+                    policy: { include: { rules: true } },
+                    ruleUsages: { where: { keyUserId: keyUser.id } },
+                },
+            },
+        },
+    });
+
+    const signingConditions: SigningCondition[] = [];
+
+    for (const redemption of redemptions) {
+        const policy = redemption.Token.policy;
+        if (!policy || policy.deletedAt) continue;
+
+        for (const rule of policy.rules) {
+            signingConditions.push(policyRuleToSigningCondition(rule, redemption));
+        }
+    }
+
+    return signingConditions;
+}
+
+/**
+ * Counts a use of a policy rule by a client that redeemed a token,
+ * checking and counting in a single query when the rule has a usage budget
+ * @param maxUsageCount - How many times the client can use the rule, null for no limit
+ * @returns false if the client had no usage left
+ */
+export async function recordPolicyRuleUsage(
+    tokenId: number,
+    keyUserId: number,
+    policyRuleId: number,
+    maxUsageCount: number | null
+): Promise<boolean> {
+    const usage = await prisma.policyRuleUsage.upsert({
+        where: { unique_token_rule: { tokenId, keyUserId, policyRuleId } },
+        update: {},
+        create: { tokenId, keyUserId, policyRuleId, count: 0 },
+    });
+
+    const { count } = await prisma.policyRuleUsage.updateMany({
+        where: {
+            id: usage.id,
+            ...(maxUsageCount !== null ? { count: { lt: maxUsageCount } } : {}),
+        },
+        data: { count: { increment: 1 } },
+    });
+
+    return count > 0;
+}
@@ -0,0 +1,31 @@
+import type { SigningCondition } from '@prisma/client';
+import { kindSpecificity } from './kinds.js';
+
+/**
+ * ACL Precedence
+ *
+ * When several signing conditions apply to the same request, the one
+ * that decides it is picked deterministically:
+ * 1. An explicit deny wins over an allow
+ * 2. The more specific kind wins: a single kind, then a range or group
+ *    of kinds, then a NIP-01 category, then all kinds
+ * 3. A newer condition wins over an older one
+ */
+
+/**
+ * Sort comparator that orders signing conditions from the one
+ * that takes precedence to the one that takes it the least
+ */
+export function compareSigningConditions(a: SigningCondition, b: SigningCondition): number {
+    const aDenies = a.allowed === false ? 1 : 0;
+    const bDenies = b.allowed === false ? 1 : 0;
+    if (aDenies !== bDenies) return bDenies - aDenies;
+
+    const specificity = kindSpecificity(b.kind) - kindSpecificity(a.kind);
+    if (specificity !== 0) return specificity;
+
+    const age = b.createdAt.getTime() - a.createdAt.getTime();
+    if (age !== 0) return age;
+
+    return b.id - a.id;
+}
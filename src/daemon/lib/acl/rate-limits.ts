@@ -0,0 +1,101 @@
+import type { NostrEvent } from '@nostr-dev-kit/ndk';
+import type { RateLimit } from '@prisma/client';
+import prisma from '../../../db.js';
+import { IMethod, normalizeMethod } from './index.js';
+import { IKindGroups, kindMatches } from './kinds.js';
+import { getKindGroups } from './cache.js';
+
+/**
+ * Rate Limits and Quotas
+ *
+ * Caps how many requests a KeyUser can get automatically approved
+ * per method and kind within a time window, e.g. at most 30 kind:1
+ * sign_event requests per hour and 500 per day.
+ *
+ * Each limit keeps a fixed-window counter on its row; once the window
+ * elapses the counter starts over. Counters are checked and incremented
+ * atomically.
+ */
+
+/**
+ * What to do with a request that exceeds a limit:
+ * - deny: reject the request
+ * - escalate: ask an admin to approve the request
+ */
+export type IRateLimitAction = 'deny' | 'escalate';
+
+export const RATE_LIMIT_ACTIONS: IRateLimitAction[] = [ 'deny', 'escalate' ];
+
+/**
+ * Checks whether a rate limit covers the given request; its kind is
+ * a kind expression, like the kind of a signing condition (see ./kinds.ts)
+ */
+function rateLimitApplies(limit: RateLimit, method: IMethod, payload: string | NostrEvent | undefined, kindGroups: IKindGroups): boolean {
+    if (normalizeMethod(limit.method) !== normalizeMethod(method)) return false;
+    if (method !== 'sign_event') return true;
+
+    return kindMatches(limit.kind, (payload as NostrEvent)?.kind, kindGroups);
+}
+
+/**
+ * Counts an automatically approved request against the rate limits of its KeyUser
+ *
+ * @returns the action to take when a limit has been exceeded, undefined if the request is within limits
+ */
+export async function applyRateLimits(
+    keyName: string,
+    remotePubkey: string,
+    method: IMethod,
+    payload?: string | NostrEvent
+): Promise<IRateLimitAction | undefined> {
+    const keyUser = await prisma.keyUser.findUnique({
+        where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
+        include: { rateLimits: true },
+    });
+
+    if (!keyUser) return undefined;
+
+    const kindGroups = method === 'sign_event' ? await getKindGroups() : {};
+    const limits = keyUser.rateLimits.filter((l) => rateLimitApplies(l, method, payload, kindGroups));
+    const now = new Date();
+    const counted: number[] = [];
+    let exceeded: IRateLimitAction | undefined;
+
+    for (const limit of limits) {
+        // Start a new window once the current one has elapsed
+        await prisma.rateLimit.updateMany({
+            where: {
+                id: limit.id,
+                windowStartedAt: { lte: new Date(now.getTime() - limit.windowSeconds * 1000) },
+            },
+            data: { currentCount: 0, windowStartedAt: now },
+        });
+
+        // Check and count in a single query, so a burst of concurrent
+        // requests can't all pass the check before any is counted
+        const { count } = await prisma.rateLimit.updateMany({
+            where: { id: limit.id, currentCount: { lt: limit.maxCount } },
+            data: { currentCount: { increment: 1 } },
+        });
+
+        if (count > 0) {
+            counted.push(limit.id);
+            continue;
+        }
+
+        console.log(`rate limit exceeded`, limit);
+
+        // A deny is stricter than an escalation
+        if (exceeded !== 'deny') exceeded = limit.action as IRateLimitAction;
+    }
+
+    // A request that exceeds a limit isn't counted against the others
+    if (exceeded && counted.length > 0) {
+        await prisma.rateLimit.updateMany({
+            where: { id: { in: counted } },
+            data: { currentCount: { decrement: 1 } },
+        });
+    }
+
+    return exceeded;
+}
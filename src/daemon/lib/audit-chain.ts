@@ -0,0 +1,395 @@
+/**
+ * Audit Log Chain Module
+ *
+ * Makes the audit log tamper-evident:
+ * - Every entry stores the hash of the previous entry and its own hash,
+ *   so editing or deleting an entry breaks the chain after it
+ * - Checkpoints periodically record the hash of the latest entry in an event
+ *   signed by the bunker's admin key, so rewriting the whole chain after an
+ *   entry, or deleting the latest entries, is detected too
+ * - Checkpoints are also kept outside the database, appended to a file and
+ *   published to relays, so deleting entries along with the checkpoints that
+ *   cover them, or wiping the log, is detected as well
+ *
+ * Entries written before the chain existed have no hash and are reported
+ * as unchained when they precede the first chained entry.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import NDK, { NDKEvent, NDKSigner, NostrEvent } from '@nostr-dev-kit/ndk';
+import type { Log, Prisma } from '@prisma/client';
+import { Event, verifySignature } from 'nostr-tools';
+import prisma from '../../db.js';
+import type { IAdminOpts } from '../admin/index.js';
+
+/**
+ * Kind of checkpoint events (NIP-78, application-specific data)
+ */
+const AUDIT_CHECKPOINT_KIND = 30078;
+const AUDIT_CHECKPOINT_TAG = 'nsecbunker-audit-checkpoint';
+
+/**
+ * File checkpoints are appended to, next to the config file,
+ * when admin.auditCheckpointFile isn't set
+ */
+const DEFAULT_AUDIT_CHECKPOINT_FILE = 'audit-checkpoints.jsonl';
+
+/**
+ * How long to wait for relays when fetching checkpoints, in milliseconds
+ */
+const FETCH_CHECKPOINTS_TIMEOUT = 10000;
+
+/**
+ * Entries are read in batches of this size when verifying the chain
+ */
+const VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Errors reported by a verification are capped at this many
+ */
+const MAX_VERIFY_ERRORS = 100;
+
+export type IAuditLogEntry = Omit<Prisma.LogUncheckedCreateInput, 'id' | 'prevHash' | 'hash'>;
+
+export type IAuditVerificationError = {
+    log_id?: number;
+    checkpoint_id?: number;
+    error: string;
+};
+
+export type IAuditVerification = {
+    valid: boolean;
+    entries: number;
+    unchained_entries: number;
+    checkpoints: number;
+    last_checkpoint_log_id: number | null;
+    external_checkpoints: number;
+    last_external_checkpoint_log_id: number | null;
+    errors: IAuditVerificationError[];
+};
+
+/**
+ * Where checkpoints are kept outside the database
+ */
+export type IAuditCheckpointStores = {
+    // File checkpoints are appended to, one event per line
+    file: string;
+    // Connected to the relays checkpoints are published to
+    ndk?: NDK;
+};
+
+type ICheckpointContent = { log_id: number, hash: string };
+
+// Entries are appended one at a time so each one links to the previous one
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Hashes an entry together with the hash of the previous one
+ */
+function hashEntry(entry: Omit<Log, 'id' | 'hash'>): string {
+    const fields = [
+        entry.prevHash,
+        entry.timestamp.toISOString(),
+        entry.type,
+        entry.method,
+        entry.params,
+        entry.keyUserId,
+        entry.keyName,
+        entry.remotePubkey,
+        entry.kind,
+        entry.contentHash,
+        entry.decision,
+        entry.reason,
+        entry.adminPubkey,
+    ];
+
+    return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+/**
+ * Where checkpoints are kept outside the database, per the admin config
+ * @param configFile - Path to the config file
+ * @param ndk - Connected to the admin relays
+ */
+export function getAuditCheckpointStores(opts: IAdminOpts, configFile: string, ndk?: NDK): IAuditCheckpointStores {
+    const file = opts.auditCheckpointFile ?? path.join(path.dirname(configFile), DEFAULT_AUDIT_CHECKPOINT_FILE);
+
+    return { file, ndk };
+}
+
+/**
+ * Appends an entry to the audit log, chained to the latest entry
+ */
+export function appendAuditLog(data: IAuditLogEntry): Promise<Log> {
+    const append = appendQueue.then(async () => {
+        const last = await prisma.log.findFirst({ orderBy: { id: 'desc' } });
+
+        const entry = {
+            timestamp: new Date(data.timestamp),
+            type: data.type,
+            method: data.method ?? null,
+            params: data.params ?? null,
+            keyUserId: data.keyUserId ?? null,
+            keyName: data.keyName ?? null,
+            remotePubkey: data.remotePubkey ?? null,
+            kind: data.kind ?? null,
+            contentHash: data.contentHash ?? null,
+            decision: data.decision ?? null,
+            reason: data.reason ?? null,
+            adminPubkey: data.adminPubkey ?? null,
+            prevHash: last?.hash ?? null,
+        };
+
+        return prisma.log.create({
+            data: { ...entry, hash: hashEntry(entry) },
+        });
+    });
+
+    appendQueue = append.catch(() => {});
+
+    return append;
+}
+
+/**
+ * Records the hash of the latest entry in an event signed by the admin key,
+ * in the database and in the external stores.
+ * Nothing is recorded when no entry was appended since the last checkpoint.
+ * @returns the checkpoint, if one was created
+ */
+export async function createAuditCheckpoint(signer: NDKSigner, stores: IAuditCheckpointStores) {
+    const last = await prisma.log.findFirst({
+        where: { hash: { not: null } },
+        orderBy: { id: 'desc' },
+    });
+    if (!last) return;
+
+    const lastCheckpoint = await prisma.auditCheckpoint.findFirst({ orderBy: { id: 'desc' } });
+    if (lastCheckpoint?.logId === last.id) return;
+
+    const event = new NDKEvent(undefined, {
+        kind: AUDIT_CHECKPOINT_KIND,
+        content: JSON.stringify({ log_id: last.id, hash: last.hash }),
+        tags: [ [ 'd', AUDIT_CHECKPOINT_TAG ] ],
+        created_at: Math.floor(Date.now() / 1000),
+    } as NostrEvent);
+    await event.sign(signer);
+
+    const checkpoint = await prisma.auditCheckpoint.create({
+        data: {
+            logId: last.id,
+            hash: last.hash!,
+            event: JSON.stringify(event.rawEvent()),
+        }
+    });
+
+    fs.appendFileSync(stores.file, JSON.stringify(event.rawEvent()) + '\n');
+
+    if (stores.ndk) {
+        event.ndk = stores.ndk;
+
+        try {
+            await event.publish();
+        } catch (e: any) {
+            console.log('failed to publish audit checkpoint', e.message);
+        }
+    }
+
+    return checkpoint;
+}
+
+/**
+ * Reads the checkpoints kept outside the database: the ones in the checkpoint
+ * file and the latest one published to the relays
+ * @param bunkerPubkey - Pubkey of the admin key that signs the checkpoints
+ */
+export async function loadExternalCheckpoints(
+    bunkerPubkey: string,
+    stores: IAuditCheckpointStores
+): Promise<Event[]> {
+    const checkpoints: Event[] = [];
+
+    if (fs.existsSync(stores.file)) {
+        for (const line of fs.readFileSync(stores.file, 'utf8').split('\n')) {
+            if (!line.trim()) continue;
+
+            try {
+                checkpoints.push(JSON.parse(line));
+            } catch (e) {
+                // Reported as malformed by verifyAuditLog
+                checkpoints.push({ content: line } as Event);
+            }
+        }
+    }
+
+    if (stores.ndk) {
+        const fetched = new Promise<Set<NDKEvent>>((resolve) => {
+            setTimeout(() => resolve(new Set()), FETCH_CHECKPOINTS_TIMEOUT);
+
+            stores.ndk!.fetchEvents({
+                kinds: [ AUDIT_CHECKPOINT_KIND ],
+                authors: [ bunkerPubkey ],
+                '#d': [ AUDIT_CHECKPOINT_TAG ],
+            }).then(resolve, () => resolve(new Set()));
+        });
+
+        for (const event of await fetched) {
+            checkpoints.push(event.rawEvent() as Event);
+        }
+    }
+
+    return checkpoints;
+}
+
+/**
+ * Parses a checkpoint event, checking it's signed by the bunker
+ * @throws Error if the checkpoint is malformed or its signature is invalid
+ */
+function parseCheckpoint(event: Event, bunkerPubkey: string): ICheckpointContent {
+    let content: ICheckpointContent;
+
+    try {
+        content = JSON.parse(event.content);
+    } catch (e) {
+        throw new Error('checkpoint is malformed');
+    }
+
+    if (event.pubkey !== bunkerPubkey || !verifySignature(event)) {
+        throw new Error('checkpoint signature is invalid');
+    }
+
+    return content;
+}
+
+/**
+ * Verifies the chain of the audit log and its checkpoints
+ * @param bunkerPubkey - Pubkey of the admin key that signs the checkpoints
+ * @param externalCheckpoints - Checkpoints kept outside the database, see loadExternalCheckpoints
+ */
+export async function verifyAuditLog(
+    bunkerPubkey: string,
+    externalCheckpoints: Event[]
+): Promise<IAuditVerification> {
+    const result: IAuditVerification = {
+        valid: true,
+        entries: 0,
+        unchained_entries: 0,
+        checkpoints: 0,
+        last_checkpoint_log_id: null,
+        external_checkpoints: 0,
+        last_external_checkpoint_log_id: null,
+        errors: [],
+    };
+
+    const fail = (error: IAuditVerificationError) => {
+        result.valid = false;
+        if (result.errors.length < MAX_VERIFY_ERRORS) result.errors.push(error);
+    };
+
+    // Walk the chain in id order
+    let previous: Log | undefined;
+    let chained = false;
+    let cursor = 0;
+
+    while (true) {
+        const batch = await prisma.log.findMany({
+            where: { id: { gt: cursor } },
+            orderBy: { id: 'asc' },
+            take: VERIFY_BATCH_SIZE,
+        });
+        if (batch.length === 0) break;
+
+        for (const log of batch) {
+            result.entries++;
+
+            if (!log.hash) {
+                if (chained) {
+                    fail({ log_id: log.id, error: 'entry is not chained' });
+                } else {
+                    result.unchained_entries++;
+                }
+            } else {
+                if (previous && log.id !== previous.id + 1) {
+                    fail({ log_id: log.id, error: `entries ${previous.id + 1} to ${log.id - 1} are missing` });
+                }
+
+                if (chained && log.prevHash !== previous?.hash) {
+                    fail({ log_id: log.id, error: 'entry does not link to the previous entry' });
+                }
+
+                if (hashEntry(log) !== log.hash) {
+                    fail({ log_id: log.id, error: 'entry was modified' });
+                }
+
+                chained = true;
+            }
+
+            previous = log;
+        }
+
+        cursor = batch[batch.length - 1].id;
+    }
+
+    // Every checkpoint must be signed by the bunker and match the entry it covers
+    const checkpoints = await prisma.auditCheckpoint.findMany({ orderBy: { id: 'asc' } });
+
+    for (const checkpoint of checkpoints) {
+        result.checkpoints++;
+
+        let content: ICheckpointContent;
+
+        try {
+            content = parseCheckpoint(JSON.parse(checkpoint.event), bunkerPubkey);
+        } catch (e: any) {
+            fail({ checkpoint_id: checkpoint.id, error: e instanceof SyntaxError ? 'checkpoint is malformed' : e.message });
+            continue;
+        }
+
+        if (content.log_id !== checkpoint.logId || content.hash !== checkpoint.hash) {
+            fail({ checkpoint_id: checkpoint.id, error: 'checkpoint was modified' });
+            continue;
+        }
+
+        const log = await prisma.log.findUnique({ where: { id: checkpoint.logId } });
+
+        if (!log) {
+            fail({ checkpoint_id: checkpoint.id, log_id: checkpoint.logId, error: 'checkpointed entry is missing' });
+        } else if (log.hash !== checkpoint.hash) {
+            fail({ checkpoint_id: checkpoint.id, log_id: checkpoint.logId, error: 'checkpointed entry was modified' });
+        }
+
+        result.last_checkpoint_log_id = checkpoint.logId;
+    }
+
+    // The latest checkpoint kept outside the database must still match the log,
+    // so entries can't be deleted along with the checkpoints covering them
+    let latest: ICheckpointContent | undefined;
+
+    for (const event of externalCheckpoints) {
+        result.external_checkpoints++;
+
+        try {
+            const content = parseCheckpoint(event, bunkerPubkey);
+            if (!latest || content.log_id > latest.log_id) latest = content;
+        } catch (e: any) {
+            fail({ error: `external ${e.message}` });
+        }
+    }
+
+    if (latest) {
+        result.last_external_checkpoint_log_id = latest.log_id;
+
+        const log = await prisma.log.findUnique({ where: { id: latest.log_id } });
+
+        if (!log) {
+            fail({ log_id: latest.log_id, error: 'entry covered by an external checkpoint is missing' });
+        } else if (log.hash !== latest.hash) {
+            fail({ log_id: latest.log_id, error: 'entry covered by an external checkpoint was modified' });
+        }
+    } else if (result.checkpoints > 0) {
+        fail({ error: 'no checkpoint found outside the database' });
+    }
+
+    return result;
+}
@@ -0,0 +1,136 @@
+/**
+ * Audit Log Module
+ *
+ * Records an audit trail in the Log table:
+ * - Every decision on a NIP-46 request: allowed or denied by the ACL,
+ *   approved or denied by an admin, or timed out waiting for one
+ * - Every admin command
+ *
+ * Signing requests are logged with their method, kind and a hash of their
+ * content, never the content itself. Entries are chained to each other, see ./audit-chain.ts
+ */
+
+import crypto from 'crypto';
+import type { NDKRpcRequest, NostrEvent } from '@nostr-dev-kit/ndk';
+import prisma from '../../db.js';
+import { IRequestPayload, isEncryptionMethod } from './acl/index.js';
+import { appendAuditLog } from './audit-chain.js';
+
+export type IAuditLogType = 'signing' | 'admin';
+
+/**
+ * How a request ended:
+ * - allowed/denied: decided by the ACL, or by an admin when adminPubkey is set
+ * - approved: approved by an admin
+ * - timed_out: no admin answered in time
+ * - ok/error: outcome of an admin command
+ */
+export type IAuditDecision = 'allowed' | 'denied' | 'approved' | 'timed_out' | 'ok' | 'error';
+
+export const AUDIT_DECISIONS: IAuditDecision[] = [ 'allowed', 'denied', 'approved', 'timed_out', 'ok', 'error' ];
+
+/**
+ * Params of admin commands that carry secrets, by position; they are never logged
+ */
+const SECRET_ADMIN_PARAMS: Record<string, number[]> = {
+    create_new_key: [ 1, 2 ],
+    unlock_key: [ 1 ],
+    change_key_passphrase: [ 1, 2 ],
+};
+
+/**
+ * Admin commands that aren't worth logging
+ */
+const UNLOGGED_ADMIN_METHODS = [ 'ping' ];
+
+export type ISigningLogEntry = {
+    keyName: string;
+    remotePubkey: string;
+    method: string;
+    payload?: IRequestPayload;
+    decision: IAuditDecision;
+    reason?: string;
+    adminPubkey?: string;
+};
+
+/**
+ * Hashes the content of a request: the content of the event to sign,
+ * or the text to encrypt or decrypt
+ */
+function hashPayload(method: string, payload?: IRequestPayload): string | undefined {
+    let content: string | undefined;
+
+    if (method === 'sign_event') {
+        content = (payload as NostrEvent)?.content;
+    } else if (isEncryptionMethod(method) && Array.isArray(payload)) {
+        content = payload[1];
+    }
+
+    if (content === undefined) return undefined;
+
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Records the decision on a NIP-46 request.
+ * Failing to write the log never fails the request.
+ */
+export async function logSigningDecision(entry: ISigningLogEntry) {
+    const { keyName, remotePubkey, method, payload } = entry;
+
+    try {
+        const keyUser = await prisma.keyUser.findUnique({
+            where: { unique_key_user: { keyName, userPubkey: remotePubkey } },
+        });
+
+        await appendAuditLog({
+            timestamp: new Date(),
+            type: 'signing',
+            keyName,
+            remotePubkey,
+            method,
+            kind: method === 'sign_event' ? (payload as NostrEvent)?.kind : undefined,
+            contentHash: hashPayload(method, payload),
+            decision: entry.decision,
+            reason: entry.reason,
+            adminPubkey: entry.adminPubkey,
+            keyUserId: keyUser?.id,
+        });
+    } catch (e: any) {
+        console.log('failed to write audit log', e.message);
+    }
+}
+
+/**
+ * The params of an admin command, with its secrets redacted
+ */
+export function redactAdminParams(req: NDKRpcRequest): string[] {
+    const secrets = SECRET_ADMIN_PARAMS[req.method] ?? [];
+
+    return (req.params as string[]).map((p, i) => secrets.includes(i) ? '[redacted]' : p);
+}
+
+/**
+ * Records an admin command and its outcome, leaving out any secret params
+ * @param req - The admin's request
+ * @param error - Why the command failed, if it did
+ */
+export async function logAdminAction(req: NDKRpcRequest, error?: string) {
+    if (UNLOGGED_ADMIN_METHODS.includes(req.method)) return;
+
+    const params = redactAdminParams(req);
+
+    try {
+        await appendAuditLog({
+            timestamp: new Date(),
+            type: 'admin',
+            method: req.method,
+            params: JSON.stringify(params),
+            decision: error ? 'error' : 'ok',
+            reason: error,
+            adminPubkey: req.pubkey,
+        });
+    } catch (e: any) {
+        console.log('failed to write audit log', e.message);
+    }
+}
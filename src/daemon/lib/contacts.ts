@@ -0,0 +1,71 @@
+/**
+ * Contact List Module
+ *
+ * Keeps track of the contact lists (kind:3) of the keys the bunker serves,
+ * so permissions can be scoped to the people a key follows.
+ */
+
+import NDK, { NDKKind } from "@nostr-dev-kit/ndk";
+import createDebug from "debug";
+
+const debug = createDebug("nsecbunker:contacts");
+
+/**
+ * How long a fetched contact list is reused before fetching it again
+ */
+const CONTACT_LIST_TTL = 5 * 60 * 1000;
+
+type IKeyContacts = {
+    ndk: NDK;
+    pubkey: string;
+    contacts?: Set<string>;
+    fetchedAt?: number;
+};
+
+const keys: Record<string, IKeyContacts> = {};
+
+/**
+ * Registers a key whose contact list can be looked up by name
+ * @param keyName - Name of the key
+ * @param ndk - NDK instance used to fetch the contact list
+ * @param pubkey - Hex pubkey of the key
+ */
+export function registerKeyContacts(keyName: string, ndk: NDK, pubkey: string) {
+    keys[keyName] = { ndk, pubkey };
+}
+
+/**
+ * Returns the pubkeys in a key's contact list
+ * @returns an empty set if the key is unknown or has no contact list
+ */
+export async function getContactList(keyName: string): Promise<Set<string>> {
+    const key = keys[keyName];
+    if (!key) return new Set();
+
+    if (key.contacts && key.fetchedAt && Date.now() - key.fetchedAt < CONTACT_LIST_TTL) {
+        return key.contacts;
+    }
+
+    try {
+        const event = await key.ndk.fetchEvent({
+            kinds: [NDKKind.Contacts],
+            authors: [key.pubkey],
+        });
+
+        key.contacts = new Set(
+            (event?.tags ?? []).filter((t) => t[0] === 'p' && t[1]).map((t) => t[1])
+        );
+        key.fetchedAt = Date.now();
+    } catch (e) {
+        debug(`error fetching contact list of ${keyName}`, e);
+    }
+
+    return key.contacts ?? new Set();
+}
+
+/**
+ * Forgets a key, e.g. once it gets locked
+ */
+export function unregisterKeyContacts(keyName: string) {
+    delete keys[keyName];
+}
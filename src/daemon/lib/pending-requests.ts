@@ -0,0 +1,188 @@
+/**
+ * Pending Requests Module
+ *
+ * Requests that need an admin's approval are stored in the Request table
+ * and wait there until an admin approves or denies them, or until they expire.
+ * Expired requests are deleted by a periodic sweep.
+ * An admin can answer right away, through the acl request sent to their admin app,
+ * or catch up later with the list_pending_requests, approve_request and
+ * deny_request admin commands. Some requests need the votes of several admins,
+ * see ./quorum.ts
+ */
+
+import type { ApprovalVote, Request } from "@prisma/client";
+import prisma from "../../db.js";
+import type { IConfig } from "../../config/index.js";
+import { IAdminRole, IAdminRoleConfig, roleSatisfies } from "../admin/validations/admin-permissions.js";
+import { normalizeMethod } from "./acl/index.js";
+
+/**
+ * How long a request waits for an admin when no timeout is configured, in seconds
+ */
+const DEFAULT_PENDING_REQUEST_TTL = 60;
+
+type IPendingRequestWaiter = (allowed?: boolean) => void;
+
+const waiters = new Map<string, IPendingRequestWaiter>();
+
+/**
+ * How long a request waits for an admin, in seconds. The most specific setting wins:
+ * 1. keys.$keyId.pendingRequestTtlByMethod.$method
+ * 2. keys.$keyId.pendingRequestTtl
+ * 3. admin.pendingRequestTtlByMethod.$method
+ * 4. admin.pendingRequestTtl
+ * @param keyName - Key the request is made to, if any
+ * @param method - Method of the request or admin command
+ */
+export function getPendingRequestTtl(config: IConfig, keyName?: string, method?: string): number {
+    const keyData = keyName ? config.keys[keyName] : undefined;
+    const normalizedMethod = method ? normalizeMethod(method) : undefined;
+
+    const ttls = [
+        normalizedMethod ? keyData?.pendingRequestTtlByMethod?.[normalizedMethod] : undefined,
+        keyData?.pendingRequestTtl,
+        normalizedMethod ? config.admin?.pendingRequestTtlByMethod?.[normalizedMethod] : undefined,
+        config.admin?.pendingRequestTtl,
+    ];
+
+    return ttls.find((ttl) => typeof ttl === 'number') ?? DEFAULT_PENDING_REQUEST_TTL;
+}
+
+/**
+ * Waits for an admin to approve or deny a pending request
+ * @param id - Id of the Request record
+ * @param expiresAt - When to stop waiting
+ * @returns true if the request is approved, false if it is denied, undefined if it expired
+ */
+export function waitForPendingRequest(id: string, expiresAt: Date): Promise<boolean | undefined> {
+    return new Promise((resolve) => {
+        const timeout = setTimeout(() => {
+            waiters.delete(id);
+            resolve(undefined);
+        }, Math.max(expiresAt.getTime() - Date.now(), 0));
+
+        waiters.set(id, (allowed?: boolean) => {
+            clearTimeout(timeout);
+            waiters.delete(id);
+            resolve(allowed);
+        });
+    });
+}
+
+/**
+ * Deletes the requests that have expired
+ * @returns the number of deleted requests
+ */
+export async function sweepExpiredRequests(): Promise<number> {
+    const { count } = await prisma.request.deleteMany({
+        where: {
+            OR: [
+                { expiresAt: { lte: new Date() } },
+                // Requests created before they had an expiration
+                { expiresAt: null },
+            ]
+        }
+    });
+
+    return count;
+}
+
+/**
+ * Expires the requests that were still pending when the bunker stopped;
+ * nothing is waiting for an answer to them anymore
+ * @returns the number of expired requests
+ */
+export async function expireOrphanedRequests(): Promise<number> {
+    const now = new Date();
+
+    const { count } = await prisma.request.updateMany({
+        where: { allowed: null, expiresAt: { gt: now } },
+        data: { expiresAt: now },
+    });
+
+    return count;
+}
+
+export type IVoteResult = {
+    status: 'approved' | 'denied' | 'pending';
+    approvals: number;
+    required_approvals: number;
+};
+
+/**
+ * Records an admin's vote on a pending request. The request is approved once
+ * it has the approvals it needs (see ./quorum.ts), one for most requests,
+ * and denied as soon as an admin denies it; the waiting client is let through then.
+ * @param id - Id of the Request record
+ * @param approve - Whether the admin approves the request
+ * @param voter - Pubkey of the admin voting
+ * @param voterRole - Role of the admin voting
+ * @throws Error if the request isn't pending or the admin's role can't vote on it
+ */
+export async function castVote(
+    id: string,
+    approve: boolean,
+    voter: string,
+    voterRole: IAdminRoleConfig
+): Promise<IVoteResult> {
+    const now = new Date();
+
+    const request = await prisma.request.findFirst({
+        where: { id, allowed: null, expiresAt: { gt: now } },
+    });
+
+    if (!request) throw new Error("Request not found or no longer pending");
+
+    if (request.requiredRole && !roleSatisfies(voterRole.role, request.requiredRole as IAdminRole)) {
+        throw new Error(`Only admins with the ${request.requiredRole} role can vote on this request`);
+    }
+
+    await prisma.approvalVote.upsert({
+        where: { unique_request_vote: { requestId: id, adminPubkey: voter } },
+        create: { requestId: id, adminPubkey: voter, approve },
+        update: { approve },
+    });
+
+    const approvers = (await prisma.approvalVote.findMany({
+        where: { requestId: id, approve: true },
+    })).map((v) => v.adminPubkey);
+
+    let allowed: boolean | undefined;
+
+    if (!approve) {
+        allowed = false;
+    } else if (approvers.length >= request.requiredApprovals) {
+        allowed = true;
+    }
+
+    if (allowed !== undefined) {
+        const { count } = await prisma.request.updateMany({
+            where: { id, allowed: null },
+            data: { allowed, resolvedAt: now, resolvedBy: allowed ? approvers.join(',') : voter },
+        });
+
+        if (count > 0) waiters.get(id)?.(allowed);
+    }
+
+    return {
+        status: allowed === undefined ? 'pending' : (allowed ? 'approved' : 'denied'),
+        approvals: approvers.length,
+        required_approvals: request.requiredApprovals,
+    };
+}
+
+/**
+ * Lists the requests that are waiting for an admin, oldest first
+ * @param keyName - Only list the requests for this key
+ */
+export async function listPendingRequests(keyName?: string): Promise<(Request & { votes: ApprovalVote[] })[]> {
+    return prisma.request.findMany({
+        where: {
+            keyName,
+            allowed: null,
+            expiresAt: { gt: new Date() },
+        },
+        include: { votes: true },
+        orderBy: { createdAt: 'asc' },
+    });
+}
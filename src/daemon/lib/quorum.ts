@@ -0,0 +1,83 @@
+/**
+ * Approval Quorum Module
+ *
+ * Lets sensitive operations require the approval of several admins
+ * instead of any single one, configured in admin.quorum:
+ * - requests: NIP-46 requests, e.g. kind 0, 3 and 10002 events and deletions
+ *   need 2 admins; they always go to the admins, even if a rule allows them
+ * - commands: admin commands, e.g. create_new_key needs 2 owners
+ *
+ * Each admin votes once per request. The request is approved once enough
+ * admins approved it, and denied as soon as any admin denies it.
+ */
+
+import type { IAdminRole } from '../admin/validations/admin-permissions.js';
+import type { IConfig } from '../../config/index.js';
+
+/**
+ * A quorum rule, stored in admin.quorum.requests or admin.quorum.commands
+ */
+export type IQuorumRule = {
+    // NIP-46 method or admin command
+    method: string;
+    // Only for sign_event requests of these kinds
+    kinds?: number[];
+    // Only for requests to these keys
+    keys?: string[];
+    // How many admins need to approve
+    approvals: number;
+    // Least role of the admins who can vote
+    role?: IAdminRole;
+};
+
+export type IQuorumConfig = {
+    requests?: IQuorumRule[];
+    commands?: IQuorumRule[];
+};
+
+/**
+ * Finds the quorum a request needs: the strictest rule that applies to it
+ * @param rules - The quorum rules of the kind of request
+ * @param method - Method of the request
+ * @param keyName - Key the request is made to, if any
+ * @param kind - Kind of the event to sign, for sign_event requests
+ * @returns undefined when a single admin can approve the request
+ */
+export function findQuorumRule(
+    rules: IQuorumRule[] | undefined,
+    method: string,
+    keyName?: string,
+    kind?: number
+): IQuorumRule | undefined {
+    let strictest: IQuorumRule | undefined;
+
+    for (const rule of rules ?? []) {
+        if (rule.method !== method) continue;
+        if (rule.kinds && (kind === undefined || !rule.kinds.includes(kind))) continue;
+        if (rule.keys && (!keyName || !rule.keys.includes(keyName))) continue;
+        if (rule.approvals <= 1) continue;
+
+        if (!strictest || rule.approvals > strictest.approvals) strictest = rule;
+    }
+
+    return strictest;
+}
+
+/**
+ * Finds the quorum a NIP-46 request needs
+ */
+export function findRequestQuorumRule(
+    config: IConfig,
+    keyName: string | undefined,
+    method: string,
+    kind?: number
+): IQuorumRule | undefined {
+    return findQuorumRule(config.admin.quorum?.requests, method, keyName, kind);
+}
+
+/**
+ * Finds the quorum an admin command needs
+ */
+export function findCommandQuorumRule(config: IConfig, method: string): IQuorumRule | undefined {
+    return findQuorumRule(config.admin.quorum?.commands, method);
+}
@@ -1,10 +1,19 @@
-import NDK, { NDKPrivateKeySigner, Nip46PermitCallback, Nip46PermitCallbackParams } from '@nostr-dev-kit/ndk';
+import NDK, { NDKPrivateKeySigner, NostrEvent } from '@nostr-dev-kit/ndk';
 import { nip19 } from 'nostr-tools';
-import { Backend } from './backend/index.js';
+import { Backend, IPermitCallback, IPermitCallbackParams } from './backend/index.js';
 import {
     IMethod,
-    checkIfPubkeyAllowed,
+    expireSigningConditions,
+    getSigningDecision,
+    recordSigningConditionUsage,
 } from './lib/acl/index.js';
+import { applyRateLimits } from './lib/acl/rate-limits.js';
+import { invalidateAclCache } from './lib/acl/cache.js';
+import { registerKeyContacts, unregisterKeyContacts } from './lib/contacts.js';
+import { logSigningDecision } from './lib/audit-log.js';
+import { createAuditCheckpoint } from './lib/audit-chain.js';
+import { findRequestQuorumRule } from './lib/quorum.js';
+import { expireOrphanedRequests, sweepExpiredRequests } from './lib/pending-requests.js';
 import AdminInterface from './admin/index.js';
 import { IConfig } from '../config/index.js';
 import { NDKRpcRequest } from '@nostr-dev-kit/ndk';
@@ -22,6 +31,7 @@ import {processRegistrationWebHandler} from "./web/authorize.js";
 export type Key = {
     name: string;
     npub?: string;
+    locked: boolean;
 };
 
 export type KeyUser = {
@@ -43,6 +53,7 @@ function getKeys(config: DaemonConfig) {
             const key = {
                 name,
                 npub: user.npub,
+                locked: false,
                 userCount: await prisma.keyUser.count({ where: { keyName: name } }),
                 tokenCount: await prisma.token.count({ where: { keyName: name } })
             };
@@ -52,7 +63,7 @@ function getKeys(config: DaemonConfig) {
         }
 
         for (const name of lockedKeyNames) {
-            keys.push({ name });
+            keys.push({ name, locked: true });
         }
 
         return keys;
@@ -70,6 +81,8 @@ function getKeyUsers(config: IConfig) {
             },
             include: {
                 signingConditions: true,
+                rateLimits: true,
+                revocations: { orderBy: { revokedAt: 'desc' } },
             },
         });
 
@@ -83,6 +96,8 @@ function getKeyUsers(config: IConfig) {
                 lastUsedAt: user.lastUsedAt || undefined,
                 revokedAt: user.revokedAt || undefined,
                 signingConditions: user.signingConditions, // Include signing conditions
+                rateLimits: user.rateLimits,
+                revocations: user.revocations,
             };
 
             keyUsers.push(keyUser);
@@ -98,8 +113,8 @@ function getKeyUsers(config: IConfig) {
  * @param adminInterface
  * @returns
  */
-function signingAuthorizationCallback(keyName: string, adminInterface: AdminInterface): Nip46PermitCallback {
-    return async (p: Nip46PermitCallbackParams): Promise<boolean> => {
+function signingAuthorizationCallback(keyName: string, adminInterface: AdminInterface): IPermitCallback {
+    return async (p: IPermitCallbackParams): Promise<boolean> => {
         const { id, method, pubkey: remotePubkey, params: payload } = p;
         console.log(`🔑 ${keyName} is being requested to ${method} by ${nip19.npubEncode(remotePubkey)}, request ${id}`);
 
@@ -107,26 +122,68 @@ function signingAuthorizationCallback(keyName: string, adminInterface: AdminInte
             throw new Error('adminInterface.requestPermission is not defined');
         }
 
+        const logEntry = { keyName, remotePubkey, method, payload };
+
         try {
-            const keyAllowed = await checkIfPubkeyAllowed(keyName, remotePubkey, method as IMethod, payload);
+            const { allowed: keyAllowed, signingCondition, reason } = await getSigningDecision(keyName, remotePubkey, method as IMethod, payload);
 
-            if (keyAllowed === true || keyAllowed === false) {
-                console.log(`🔎 ${nip19.npubEncode(remotePubkey)} is ${keyAllowed ? 'allowed' : 'denied'} to ${method} with key ${keyName}`);
-                return keyAllowed;
+            if (keyAllowed === false) {
+                console.log(`🔎 ${nip19.npubEncode(remotePubkey)} is denied to ${method} with key ${keyName}`);
+                await logSigningDecision({ ...logEntry, decision: 'denied', reason });
+                return false;
             }
 
-            return new Promise((resolve) => {
-                requestAuthorization(
-                    adminInterface,
-                    keyName,
-                    remotePubkey,
-                    id,
-                    method,
-                    payload
-                )
-                    .then(() => resolve(true))
-                    .catch(() => resolve(false));
+            // Requests that need several admins always go to the admins
+            const kind = method === 'sign_event' ? (payload as NostrEvent)?.kind : undefined;
+            const quorum = findRequestQuorumRule(await adminInterface.config(), keyName, method, kind);
+
+            if (keyAllowed === true && !quorum) {
+                const rateLimited = await applyRateLimits(keyName, remotePubkey, method as IMethod, payload);
+
+                if (!rateLimited) {
+                    // Concurrent requests may have used up the rule's budget since it was checked
+                    if (signingCondition && !await recordSigningConditionUsage(signingCondition)) {
+                        console.log(`🔎 ${nip19.npubEncode(remotePubkey)} used up its budget to ${method} with key ${keyName}`);
+                        await logSigningDecision({ ...logEntry, decision: 'denied', reason: 'usage budget exhausted' });
+                        return false;
+                    }
+
+                    console.log(`🔎 ${nip19.npubEncode(remotePubkey)} is allowed to ${method} with key ${keyName}`);
+                    await logSigningDecision({ ...logEntry, decision: 'allowed', reason });
+                    return true;
+                }
+
+                console.log(`🚦 ${nip19.npubEncode(remotePubkey)} exceeded a rate limit to ${method} with key ${keyName} (${rateLimited})`);
+
+                if (rateLimited === 'deny') {
+                    await logSigningDecision({ ...logEntry, decision: 'denied', reason: 'rate limit exceeded' });
+                    return false;
+                }
+            }
+
+            const approved = await requestAuthorization(
+                adminInterface,
+                keyName,
+                remotePubkey,
+                id,
+                method,
+                payload
+            ).then(() => true, () => false);
+
+            // Find out which admin answered, if any did
+            const record = await prisma.request.findFirst({ where: { requestId: id, keyName } });
+
+            const timedOut = !approved && record?.allowed !== false;
+
+            await logSigningDecision({
+                ...logEntry,
+                decision: approved ? 'approved' : (timedOut ? 'timed_out' : 'denied'),
+                reason: quorum ? 'quorum decision' : 'admin decision',
+                adminPubkey: record?.resolvedBy ?? undefined,
             });
+
+            // A timed out request gets the same single rejection as a denied one
+            return approved;
         } catch(e) {
             console.log('callbackForKey error:', e);
         }
@@ -155,6 +212,7 @@ export default async function run(config: DaemonConfig) {
 class Daemon {
     private config: DaemonConfig;
     private activeKeys: Record<string, any>;
+    private backends: Record<string, Backend> = {};
     private adminInterface: AdminInterface;
     private ndk: NDK;
     public fastify: FastifyInstance;
@@ -176,6 +234,8 @@ class Daemon {
         this.adminInterface.getKeyUsers = getKeyUsers(config);
         this.adminInterface.unlockKey = this.unlockKey.bind(this);
         this.adminInterface.loadNsec = this.loadNsec.bind(this);
+        this.adminInterface.lockKey = this.lockKey.bind(this);
+        this.adminInterface.unloadKey = this.unloadKey.bind(this);
 
         // Initialize web server
         this.fastify = Fastify({ logger: true });
@@ -248,10 +308,116 @@ class Daemon {
         await this.ndk.connect(5000);
         await this.startWebAuth();
         await this.startKeys();
+        this.startExpirationSweep();
+        this.startAutoLockSweep();
+        this.startAuditCheckpoints();
+        this.startPendingRequestSweep();
 
         console.log('✅ nsecBunker ready to serve requests.');
     }
 
+    /**
+     * Periodically marks signing conditions whose grant expired as expired.
+     * Expired conditions are already ignored when checking permissions,
+     * this keeps the database reflecting that.
+     */
+    startExpirationSweep() {
+        const sweep = async () => {
+            try {
+                const count = await expireSigningConditions();
+                if (count > 0) {
+                    console.log(`⌛ Expired ${count} signing conditions`);
+                    invalidateAclCache();
+                }
+            } catch (e) {
+                console.log('expiration sweep error:', e);
+            }
+        };
+
+        sweep();
+        setInterval(sweep, 60000);
+    }
+
+    /**
+     * Periodically locks the keys that have an auto-lock timeout
+     * (keys.$keyId.autoLockMinutes) and haven't received a request for that long
+     */
+    startAutoLockSweep() {
+        const sweep = async () => {
+            let config: IConfig;
+
+            try {
+                config = await this.adminInterface.config();
+            } catch (e) {
+                console.log('auto-lock sweep error:', e);
+                return;
+            }
+
+            for (const [ keyName, backend ] of Object.entries(this.backends)) {
+                const minutes = config.keys[keyName]?.autoLockMinutes;
+                if (!minutes) continue;
+
+                const idleFor = Date.now() - backend.lastActivityAt.getTime();
+                if (idleFor < minutes * 60 * 1000) continue;
+
+                // A key that fails to lock doesn't keep the others unlocked
+                try {
+                    console.log(`🔒 Locking ${keyName} after ${minutes} minutes without requests`);
+                    await this.lockKey(keyName);
+                } catch (e) {
+                    console.log(`auto-lock sweep error for ${keyName}:`, e);
+                }
+            }
+        };
+
+        setInterval(sweep, 60000);
+    }
+
+    /**
+     * Periodically deletes the pending requests that expired. Requests left
+     * pending by a previous run are expired first, nothing waits for them anymore.
+     */
+    async startPendingRequestSweep() {
+        try {
+            const count = await expireOrphanedRequests();
+            if (count > 0) console.log(`⌛ Expired ${count} requests left pending by a previous run`);
+        } catch (e) {
+            console.log('pending request sweep error:', e);
+        }
+
+        const sweep = async () => {
+            try {
+                await sweepExpiredRequests();
+            } catch (e) {
+                console.log('pending request sweep error:', e);
+            }
+        };
+
+        sweep();
+        setInterval(sweep, 60000);
+    }
+
+    /**
+     * Periodically signs a checkpoint of the audit log with the admin key,
+     * every admin.auditCheckpointMinutes (60 by default), and keeps it outside
+     * the database too: in admin.auditCheckpointFile and on the admin relays
+     */
+    startAuditCheckpoints() {
+        const signer = new NDKPrivateKeySigner(this.config.admin.key);
+        const minutes = this.config.admin.auditCheckpointMinutes ?? 60;
+
+        const checkpoint = async () => {
+            try {
+                const created = await createAuditCheckpoint(signer, this.adminInterface.auditCheckpointStores);
+                if (created) console.log(`🧾 Audit log checkpoint at entry ${created.logId}`);
+            } catch (e) {
+                console.log('audit checkpoint error:', e);
+            }
+        };
+
+        setInterval(checkpoint, minutes * 60000);
+    }
+
     /**
      * Method to start a key's backend
      * @param name Name of the key
@@ -273,12 +439,24 @@ class Daemon {
             hexpk = nsec;
         }
         
+        // Don't keep serving the key twice when it gets unlocked again
+        this.backends[name]?.stop();
+
         const backend = new Backend(this.ndk, this.fastify, hexpk, cb, this.config.baseUrl);
         await backend.start();
+        this.backends[name] = backend;
+
+        // Make the key's contact list available to counterparty-scoped permissions
+        const user = await backend.signer.user();
+        registerKeyContacts(name, this.ndk, user.pubkey);
     }
 
     async unlockKey(keyName: string, passphrase: string): Promise<boolean> {
-        const keyData = this.config.allKeys[keyName];
+        // Read the key from the config file, its passphrase might have changed since starting
+        const config = await this.adminInterface.config();
+        const keyData = config.keys[keyName];
+        if (!keyData) throw new Error("Key not found");
+
         const { iv, data } = keyData;
 
         const nsec = decryptNsec(iv, data, passphrase);
@@ -289,6 +467,43 @@ class Daemon {
         return true;
     }
 
+    /**
+     * Locks a key: stops its backend and drops the decrypted secret,
+     * so the key needs to be unlocked with its passphrase again
+     * @param keyName Name of the key
+     */
+    async lockKey(keyName: string): Promise<boolean> {
+        if (!this.activeKeys[keyName]) throw new Error("Key is not unlocked");
+
+        const config = await this.adminInterface.config();
+        const keyData = config.keys[keyName];
+        if (!keyData?.iv || !keyData?.data) throw new Error("Key is not encrypted, it can't be unlocked again");
+
+        this.stopKey(keyName);
+        console.log(`🔒 ${keyName} locked`);
+
+        return true;
+    }
+
+    /**
+     * Stops serving a key and forgets it, used when the key gets deleted
+     * @param keyName Name of the key
+     */
+    unloadKey(keyName: string) {
+        this.stopKey(keyName);
+        delete this.config.allKeys[keyName];
+    }
+
+    /**
+     * Stops a key's backend and drops its decrypted secret
+     */
+    private stopKey(keyName: string) {
+        this.backends[keyName]?.stop();
+        delete this.backends[keyName];
+        delete this.activeKeys[keyName];
+        unregisterKeyContacts(keyName);
+    }
+
     loadNsec(keyName: string, nsec: string) {
         this.activeKeys[keyName] = nsec;
 
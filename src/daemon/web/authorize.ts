@@ -10,7 +10,8 @@
 
 import prisma from "../../db";
 import bcrypt from "bcrypt";
-import { IAllowScope, allowAllRequestsFromKey } from "../lib/acl";
+import { IAllowScope, allowAllRequestsFromKey, isEncryptionMethod, normalizeMethod } from "../lib/acl";
+import { nip19 } from "nostr-tools";
 import createDebug from "debug";
 import { validateRegistration } from "./registration-validations";
 
@@ -43,7 +44,7 @@ async function validateAuthCookie(request) {
 /**
  * Retrieves and validates a request record from the database
  * @param request - Request containing the ID parameter
- * @throws Error if request not found or already processed
+ * @throws Error if request not found, already processed or needs several admins
  * @returns The validated request record
  */
 async function getAndValidateStateOfRequest(request) {
@@ -55,9 +56,47 @@ async function getAndValidateStateOfRequest(request) {
         throw new Error("Request not found or already processed");
     }
 
+    if (record.requiredApprovals > 1) {
+        throw new Error("This request needs the approval of several admins");
+    }
+
     return record;
 }
 
+/**
+ * Describes what a request is asking to do, for the consent page
+ * @param record - The request record
+ * @returns A human-readable description, or undefined for plain connections
+ */
+function describeRequest(record): string | undefined {
+    const method = normalizeMethod(record.method);
+    const encryption = method.startsWith("nip44_") ? "NIP-44" : "NIP-04";
+
+    if (isEncryptionMethod(method)) {
+        let counterparty: string | undefined;
+
+        try {
+            counterparty = nip19.npubEncode(JSON.parse(record.params)[0]);
+        } catch (e) {
+            debug(`Error parsing counterparty`, e);
+        }
+
+        const action = method.endsWith("encrypt") ? "encrypt a message to" : "decrypt a message from";
+        return `${action} ${counterparty ?? "another user"} (${encryption})`;
+    }
+
+    if (method === "sign_event") {
+        try {
+            const event = JSON.parse(record.params);
+            return `sign an event of kind ${event.kind}`;
+        } catch (e) {
+            return "sign an event";
+        }
+    }
+
+    return undefined;
+}
+
 /**
  * Web handler for displaying the authorization UI
  * Routes to different templates based on request type:
@@ -84,7 +123,8 @@ export async function authorizeRequestWebHandler(request, reply) {
             return reply.view("/templates/createAccount.handlebar", { record, email, username, domain, nip05, callbackUrl });
         } else {
             const authorized = validateAuthCookie(request);
-            return reply.view("/templates/authorizeRequest.handlebar", { record, callbackUrl, authorized });
+            const description = describeRequest(record);
+            return reply.view("/templates/authorizeRequest.handlebar", { record, callbackUrl, authorized, description });
         }
     } catch (error: any) {
         debug(`Error processing request`, error, request);
@@ -150,7 +190,7 @@ export async function processRequestWebHandler(request, reply) {
         where: { id: request.params.id }
     });
 
-    if (!record || !record.keyName) {
+    if (!record || !record.keyName || record.requiredApprovals > 1) {
         return;
     }
 
@@ -166,7 +206,7 @@ export async function processRequestWebHandler(request, reply) {
 
     await prisma.request.update({
         where: { id: request.params.id },
-        data: { allowed: true }
+        data: { allowed: true, resolvedAt: new Date() }
     });
 
     let allowScope: IAllowScope | undefined;
@@ -233,7 +273,7 @@ export async function processRegistrationWebHandler(request, reply) {
 
         await prisma.request.update({
             where: { id: request.params.id },
-            data: { params: JSON.stringify(payload), allowed: true }
+            data: { params: JSON.stringify(payload), allowed: true, resolvedAt: new Date() }
         });
 
         let createdPubkey: string | undefined;
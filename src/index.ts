@@ -12,6 +12,7 @@
  * - setup: Initialize a new nsecBunker configuration file
  * - start: Launch the nsecBunker service daemon
  * - add: Securely store a new private key in the bunker
+ * - verify-audit-log: Check that the audit log hasn't been tampered with
  * 
  * @environment
  * ADMIN_NPUBS - Comma-separated list of administrator public keys (npub)
@@ -24,6 +25,7 @@ import { hideBin } from 'yargs/helpers';
 import { setup } from './commands/setup.js';
 import { addNsec } from './commands/add.js';
 import { start } from './commands/start.js';
+import { verifyAuditLogCommand } from './commands/verify-audit-log.js';
 
 /**
  * Administrator public keys can be specified via ADMIN_NPUBS environment variable
@@ -119,6 +121,19 @@ const argv = yargs(hideBin(process.argv))
         });
     })
 
+    /**
+     * Verify Audit Log Command
+     * Checks the hash chain of the audit log and its signed checkpoints
+     */
+    .command('verify-audit-log', 'Verify the audit log has not been tampered with', {}, async (argv) => {
+        try {
+            await verifyAuditLogCommand(argv.config as string);
+        } catch (e: any) {
+            console.log(`❌ ${e.message}`);
+            process.exit(1);
+        }
+    })
+
     // Global options available to all commands
     .options({
         'config': {